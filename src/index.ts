@@ -3,10 +3,32 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import "ag-psd/initialize-canvas.js";
-import { readPsd, Layer, Psd, BezierPath, VectorContent } from "ag-psd";
+import {
+  readPsd,
+  Layer,
+  Psd,
+  BezierPath,
+  VectorContent,
+  ReadOptions,
+  BlendMode,
+  UnitsValue,
+  LayerTextData,
+  TextStyle,
+  AdjustmentLayer,
+  LayerEffectShadow,
+  LayerEffectGradientOverlay,
+  Color,
+  EffectSolidGradient,
+  EffectNoiseGradient,
+} from "ag-psd";
 import * as fs from "fs";
 import * as path from "path";
 import { createCanvas } from "canvas";
@@ -14,9 +36,36 @@ import { createCanvas } from "canvas";
 // Types
 interface LayerInfo {
   name: string;
-  type: "text" | "image" | "shape" | "group" | "unknown";
+  id?: number;
+  path: string;
+  type:
+    | "text"
+    | "image"
+    | "shape"
+    | "group"
+    | "artboard"
+    | "smartObject"
+    | "solidFill"
+    | "gradientFill"
+    | "patternFill"
+    | "adjustment"
+    | "empty"
+    | "unknown";
   visible: boolean;
   opacity: number;
+  fillOpacity: number;
+  blendMode: string;
+  clipping?: boolean; // Clipped to the layer below
+  hasLayerMask?: boolean;
+  maskBounds?: {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+  };
+  hasVectorMask?: boolean;
+  locked?: boolean;
+  layerColor?: string;
   bounds: {
     left: number;
     top: number;
@@ -30,49 +79,434 @@ interface LayerInfo {
     color?: string;
     lineHeight?: number;
     letterSpacing?: number;
+    runs?: TextRunInfo[];
+    paragraphs?: ParagraphInfo[];
+  };
+  fill?: {
+    color?: string;
+    colors?: string[];
+    pattern?: string;
   };
+  adjustment?: {
+    kind: string;
+    settings: Record<string, unknown>;
+  };
+  artboard?: ArtboardFrame;
+  relativeTo?: string; // Artboard the bounds are relative to
   children?: LayerInfo[];
 }
 
+// Artboard frame in document pixels with its background
+interface ArtboardFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  background: "white" | "black" | "transparent" | "color";
+  backgroundColor?: string;
+}
+
+// Character range with its own style (start inclusive, end exclusive)
+interface TextRunInfo {
+  start: number;
+  end: number;
+  text: string;
+  font?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  italic?: boolean;
+  color?: string;
+  lineHeight?: number;
+  letterSpacing?: number;
+  underline?: boolean;
+  strikethrough?: boolean;
+  caps?: "small-caps" | "all-caps";
+  baseline?: "superscript" | "subscript";
+  baselineShift?: number;
+}
+
+// Paragraph range with its alignment, indents and spacing
+interface ParagraphInfo {
+  start: number;
+  end: number;
+  text: string;
+  alignment?: string;
+  firstLineIndent?: number;
+  startIndent?: number;
+  endIndent?: number;
+  spaceBefore?: number;
+  spaceAfter?: number;
+}
+
 interface PsdInfo {
   width: number;
   height: number;
   colorMode: string;
   bitsPerChannel: number;
+  colorProfile?: string;
   layers: LayerInfo[];
 }
 
-// Helper: Color to hex (ag-psd uses different color formats)
-function colorToHex(color: any): string | undefined {
-  if (!color) return undefined;
+// Helper: Color to lowercase sRGB hex (ag-psd uses different color formats)
+function colorToHex(
+  color: Color | undefined,
+  profile: ColorProfile | null,
+  inkRange: InkRange,
+): string | undefined {
+  return resolveColor(color, profile, inkRange)?.hex.toLowerCase();
+}
+
+// Family, weight, style and stretch parsed from a PostScript font name
+interface ParsedFontName {
+  family: string;
+  weight: number;
+  style: "normal" | "italic" | "oblique";
+  stretch: string;
+}
+
+// Parse a PostScript font name (e.g. "HelveticaNeue-CondensedBoldItalic")
+function parseFontName(fontName: string): ParsedFontName {
+  const separator = fontName.indexOf("-");
+  const familyPart = separator >= 0 ? fontName.slice(0, separator) : fontName;
+  const stylePart = separator >= 0 ? fontName.slice(separator + 1) : "";
+
+  // "MyriadPro" -> "Myriad Pro", "TimesNewRomanPSMT" -> "Times New Roman"
+  const family =
+    familyPart
+      .replace(/(?<=[a-z])(PSMT|MT|PS)$/, "")
+      .replace(/([a-z])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .trim() || fontName;
+
+  const name = stylePart.toLowerCase().replace(/[\s_]/g, "");
+  const weights: [RegExp, number][] = [
+    [/(hairline|thin)/, 100],
+    [/(extralight|ultralight)/, 200],
+    [/light/, 300],
+    [/((semi|demi)bold|demi)/, 600],
+    [/(extrabold|ultrabold)/, 800],
+    [/(black|heavy)/, 900],
+    [/bold/, 700],
+    [/medium/, 500],
+  ];
+  const stretches: [RegExp, string][] = [
+    [/ultra(condensed|compressed)/, "ultra-condensed"],
+    [/extra(condensed|compressed)/, "extra-condensed"],
+    [/semi(cond|cn)/, "semi-condensed"],
+    [/(cond|cn|compressed|narrow)/, "condensed"],
+    [/ultra(expanded|extended)/, "ultra-expanded"],
+    [/extra(expanded|extended)/, "extra-expanded"],
+    [/semi(expanded|extended)/, "semi-expanded"],
+    [/(expanded|extended|wide)/, "expanded"],
+  ];
+
+  return {
+    family,
+    weight: weights.find(([pattern]) => pattern.test(name))?.[1] ?? 400,
+    style: /oblique/.test(name)
+      ? "oblique"
+      : /(italic|it$)/.test(name.replace(/(ps)?mt$/, ""))
+        ? "italic"
+        : "normal",
+    stretch: stretches.find(([pattern]) => pattern.test(name))?.[1] ?? "normal",
+  };
+}
+
+// Numeric font weight guessed from the font name (e.g. "Inter-SemiBold" -> 600)
+function fontWeightFromName(fontName: string | undefined): number | undefined {
+  return fontName ? parseFontName(fontName).weight : undefined;
+}
+
+// Vertical scale of a transformed text layer
+function textTransformScale(text: LayerTextData): number {
+  const [, xy = 0, , yy = 1] = text.transform ?? [];
+  return Math.hypot(xy, yy) || 1;
+}
+
+// Convert an effective text style into run info
+function textStyleToRunInfo(
+  style: TextStyle,
+  start: number,
+  end: number,
+  text: string,
+  profile: ColorProfile | null,
+  scale: number,
+): TextRunInfo {
+  const fontName = style.font?.name;
+  const scaled = (value: number | undefined) =>
+    value === undefined ? undefined : roundCss(value * scale);
+  const italic =
+    style.fauxItalic ||
+    (fontName !== undefined && parseFontName(fontName).style !== "normal") ||
+    undefined;
+  return {
+    start,
+    end,
+    text: text.slice(start, end),
+    font: fontName,
+    fontSize: scaled(style.fontSize),
+    fontWeight: style.fauxBold ? 700 : fontWeightFromName(fontName),
+    italic,
+    color: colorToHex(style.fillColor, profile, 255),
+    lineHeight: style.autoLeading ? undefined : scaled(style.leading),
+    letterSpacing: style.tracking,
+    underline: style.underline || undefined,
+    strikethrough: style.strikethrough || undefined,
+    caps:
+      style.fontCaps === 1
+        ? "small-caps"
+        : style.fontCaps === 2
+          ? "all-caps"
+          : undefined,
+    baseline:
+      style.fontBaseline === 1
+        ? "superscript"
+        : style.fontBaseline === 2
+          ? "subscript"
+          : undefined,
+    baselineShift: scaled(style.baselineShift || undefined),
+  };
+}
+
+// Split text into style runs (runs only store values that differ from the default style)
+function extractTextRuns(
+  textData: LayerTextData,
+  profile: ColorProfile | null,
+): TextRunInfo[] {
+  const text = textData.text || "";
+  const scale = textTransformScale(textData);
+  const runs: TextRunInfo[] = [];
+  let start = 0;
+  for (const run of textData.styleRuns ?? []) {
+    const end = Math.min(text.length, start + run.length);
+    runs.push(
+      textStyleToRunInfo(
+        { ...textData.style, ...run.style },
+        start,
+        end,
+        text,
+        profile,
+        scale,
+      ),
+    );
+    start = end;
+  }
+  return runs;
+}
+
+// Split text into paragraphs with their paragraph style
+function extractParagraphs(textData: LayerTextData): ParagraphInfo[] {
+  if (!textData.paragraphStyle && !textData.paragraphStyleRuns) return [];
+
+  const text = textData.text || "";
+  const paragraphRuns = textData.paragraphStyleRuns ?? [
+    { length: text.length, style: {} },
+  ];
+
+  const paragraphs: ParagraphInfo[] = [];
+  let start = 0;
+  for (const run of paragraphRuns) {
+    const end = Math.min(text.length, start + run.length);
+    const style = { ...textData.paragraphStyle, ...run.style };
+    paragraphs.push({
+      start,
+      end,
+      text: text.slice(start, end),
+      alignment: style.justification,
+      firstLineIndent: style.firstLineIndent || undefined,
+      startIndent: style.startIndent || undefined,
+      endIndent: style.endIndent || undefined,
+      spaceBefore: style.spaceBefore || undefined,
+      spaceAfter: style.spaceAfter || undefined,
+    });
+    start = end;
+  }
+  return paragraphs;
+}
+
+// Whether a layer's vector mask contains an actual shape outline
+function hasVectorPaths(layer: Layer): boolean {
+  return !!layer.vectorMask?.paths.some((p) => p.knots.length > 0);
+}
 
-  // Handle FRGB format (0-1 range)
-  if (typeof color.fr === "number") {
-    const r = Math.round(color.fr * 255)
-      .toString(16)
-      .padStart(2, "0");
-    const g = Math.round(color.fg * 255)
-      .toString(16)
-      .padStart(2, "0");
-    const b = Math.round(color.fb * 255)
-      .toString(16)
-      .padStart(2, "0");
-    return `#${r}${g}${b}`;
+// Summarize a fill layer's content
+function summarizeVectorFill(
+  fill: VectorContent,
+  profile: ColorProfile | null,
+): LayerInfo["fill"] {
+  if (fill.type === "color") {
+    return { color: colorToHex(fill.color, profile, 100) };
+  }
+  if (fill.type === "pattern") {
+    return { pattern: fill.name };
+  }
+  if ("colorStops" in fill) {
+    return {
+      colors: fill.colorStops
+        .map((stop) => colorToHex(stop.color, profile, 100))
+        .filter((c): c is string => c !== undefined),
+    };
   }
+  return {};
+}
 
-  // Handle RGB format (0-255 range)
-  if (typeof color.r === "number") {
-    const r = Math.round(color.r).toString(16).padStart(2, "0");
-    const g = Math.round(color.g).toString(16).padStart(2, "0");
-    const b = Math.round(color.b).toString(16).padStart(2, "0");
-    return `#${r}${g}${b}`;
+// Summarize adjustment layer parameters
+function summarizeAdjustment(
+  adjustment: AdjustmentLayer,
+  profile: ColorProfile | null,
+): NonNullable<LayerInfo["adjustment"]> {
+  const settings: Record<string, unknown> = {};
+  const curvePoints = (points?: { input: number; output: number }[]) =>
+    points?.map((p) => `${p.input}→${p.output}`).join(" ");
+
+  switch (adjustment.type) {
+    case "brightness/contrast":
+      settings.brightness = adjustment.brightness;
+      settings.contrast = adjustment.contrast;
+      break;
+    case "levels":
+      for (const channel of ["rgb", "red", "green", "blue"] as const) {
+        const levels = adjustment[channel];
+        if (levels) {
+          settings[channel] = {
+            input: [levels.shadowInput, levels.highlightInput],
+            output: [levels.shadowOutput, levels.highlightOutput],
+            gamma: levels.midtoneInput,
+          };
+        }
+      }
+      break;
+    case "curves":
+      for (const channel of ["rgb", "red", "green", "blue"] as const) {
+        const points = curvePoints(adjustment[channel]);
+        if (points) settings[channel] = points;
+      }
+      break;
+    case "exposure":
+      settings.exposure = adjustment.exposure;
+      settings.offset = adjustment.offset;
+      settings.gamma = adjustment.gamma;
+      break;
+    case "vibrance":
+      settings.vibrance = adjustment.vibrance;
+      settings.saturation = adjustment.saturation;
+      break;
+    case "hue/saturation":
+      if (adjustment.master) {
+        settings.hue = adjustment.master.hue;
+        settings.saturation = adjustment.master.saturation;
+        settings.lightness = adjustment.master.lightness;
+      }
+      break;
+    case "color balance":
+      settings.shadows = adjustment.shadows;
+      settings.midtones = adjustment.midtones;
+      settings.highlights = adjustment.highlights;
+      settings.preserveLuminosity = adjustment.preserveLuminosity;
+      break;
+    case "black & white":
+      settings.tint = adjustment.useTint
+        ? colorToHex(adjustment.tintColor, profile, 100)
+        : undefined;
+      break;
+    case "photo filter":
+      settings.color = colorToHex(adjustment.color, profile, 255);
+      settings.density = adjustment.density;
+      break;
+    case "channel mixer":
+      settings.monochrome = adjustment.monochrome;
+      break;
+    case "color lookup":
+      settings.name = adjustment.name;
+      break;
+    case "posterize":
+      settings.levels = adjustment.levels;
+      break;
+    case "threshold":
+      settings.level = adjustment.level;
+      break;
+    case "gradient map":
+      settings.colors = adjustment.colorStops?.map((stop) =>
+        colorToHex(stop.color, profile, 255),
+      );
+      settings.reverse = adjustment.reverse;
+      break;
+    case "selective color":
+      settings.mode = adjustment.mode;
+      break;
   }
 
-  return undefined;
+  return { kind: adjustment.type, settings };
+}
+
+// Artboard frame and background (backgroundType: 1 white, 2 black, 3 transparent, 4 custom)
+function extractArtboardFrame(
+  layer: Layer,
+  profile: ColorProfile | null,
+): ArtboardFrame {
+  const { rect, backgroundType, color } = layer.artboard!;
+  const background =
+    backgroundType === 2
+      ? "black"
+      : backgroundType === 3
+        ? "transparent"
+        : backgroundType === 4
+          ? "color"
+          : "white";
+  const backgroundColor =
+    background === "white"
+      ? "#ffffff"
+      : background === "black"
+        ? "#000000"
+        : background === "color"
+          ? colorToHex(color, profile, 100)
+          : undefined;
+  return {
+    left: rect.left,
+    top: rect.top,
+    width: rect.right - rect.left,
+    height: rect.bottom - rect.top,
+    background,
+    backgroundColor,
+  };
+}
+
+// Path segment for a layer name: trimmed, with "\\" and "/" escaped
+function escapeLayerName(name: string): string {
+  return (name.trim() || "Unnamed").replace(/[\\/]/g, "\\$&");
+}
+
+// Build a canonical layer path like "Header/Nav/Logo"
+function joinLayerPath(parentPath: string, name: string): string {
+  const segment = escapeLayerName(name);
+  return parentPath ? `${parentPath}/${segment}` : segment;
+}
+
+// Split a path on unescaped "/" into trimmed, non-empty (still escaped) segments
+function splitLayerPath(layerPath: string): string[] {
+  const segments: string[] = [];
+  let segment = "";
+  for (let i = 0; i < layerPath.length; i++) {
+    if (layerPath[i] === "\\" && i + 1 < layerPath.length) {
+      segment += layerPath[i] + layerPath[++i];
+    } else if (layerPath[i] === "/") {
+      segments.push(segment);
+      segment = "";
+    } else {
+      segment += layerPath[i];
+    }
+  }
+  segments.push(segment);
+  return segments.map((item) => item.trim()).filter((item) => item.length > 0);
 }
 
 // Extract layer info recursively
-function extractLayerInfo(layer: Layer): LayerInfo {
+function extractLayerInfo(
+  layer: Layer,
+  profile: ColorProfile | null,
+  parentPath: string = "",
+): LayerInfo {
+  const layerPath = joinLayerPath(parentPath, layer.name || "Unnamed");
   const bounds = {
     left: layer.left ?? 0,
     top: layer.top ?? 0,
@@ -87,51 +521,242 @@ function extractLayerInfo(layer: Layer): LayerInfo {
   if (layer.text) {
     type = "text";
     const style = layer.text.style;
+    const scale = textTransformScale(layer.text);
+    const runs = extractTextRuns(layer.text, profile);
+    const paragraphs = extractParagraphs(layer.text);
     textInfo = {
       content: layer.text.text || "",
-      font: style?.font?.name,
-      fontSize: style?.fontSize,
-      color: colorToHex(style?.fillColor),
-      lineHeight: style?.leading,
+      font: style?.font?.name ?? runs.find((r) => r.font)?.font,
+      fontSize: style?.fontSize && roundCss(style.fontSize * scale),
+      color: colorToHex(style?.fillColor, profile, 255),
+      lineHeight: style?.leading && roundCss(style.leading * scale),
       letterSpacing: style?.tracking,
     };
-  } else if (layer.children && layer.children.length > 0) {
+    // Only report runs when the text actually mixes styles
+    if (runs.length > 1) {
+      textInfo.runs = runs;
+    }
+    if (paragraphs.length > 0) {
+      textInfo.paragraphs = paragraphs;
+    }
+  } else if (layer.artboard) {
+    type = "artboard";
+  } else if (layer.children) {
     type = "group";
-  } else if (layer.canvas) {
-    type = "image";
+  } else if (layer.adjustment) {
+    type = "adjustment";
+  } else if (layer.placedLayer) {
+    type = "smartObject";
+  } else if (layer.vectorFill && !hasVectorPaths(layer)) {
+    // Fill layers have a fill but no shape outline
+    const fill = layer.vectorFill;
+    type =
+      fill.type === "color"
+        ? "solidFill"
+        : fill.type === "pattern"
+          ? "patternFill"
+          : "gradientFill";
   } else if (layer.vectorMask || layer.vectorStroke) {
     type = "shape";
+  } else if (layer.canvas || (bounds.width > 0 && bounds.height > 0)) {
+    type = "image";
+  } else {
+    type = "empty";
   }
 
   const info: LayerInfo = {
     name: layer.name || "Unnamed",
+    id: layer.id,
+    path: layerPath,
     type,
     visible: !layer.hidden,
-    opacity: layer.opacity !== undefined ? layer.opacity / 255 : 1,
+    opacity: layer.opacity ?? 1,
+    fillOpacity: layer.fillOpacity ?? 1,
+    blendMode: layer.blendMode ?? "normal",
     bounds,
   };
 
+  if (
+    type === "solidFill" ||
+    type === "gradientFill" ||
+    type === "patternFill"
+  ) {
+    info.fill = summarizeVectorFill(layer.vectorFill!, profile);
+  }
+
+  if (layer.adjustment) {
+    info.adjustment = summarizeAdjustment(layer.adjustment, profile);
+  }
+
+  if (layer.artboard) {
+    info.artboard = extractArtboardFrame(layer, profile);
+  }
+
+  if (layer.clipping) {
+    info.clipping = true;
+  }
+
+  // Raster layer mask (masks generated from vector data are reported as vector masks)
+  if (layer.mask && !layer.mask.fromVectorData && !layer.mask.disabled) {
+    info.hasLayerMask = true;
+    info.maskBounds = {
+      left: layer.mask.left ?? 0,
+      top: layer.mask.top ?? 0,
+      width: (layer.mask.right ?? 0) - (layer.mask.left ?? 0),
+      height: (layer.mask.bottom ?? 0) - (layer.mask.top ?? 0),
+    };
+  }
+
+  // Shape layers use their vector mask as the shape itself
+  if (layer.vectorMask && !layer.vectorFill && !layer.vectorMask.disable) {
+    info.hasVectorMask = true;
+  }
+
+  const locks = layer.protected;
+  if (locks?.composite || locks?.position || locks?.transparency) {
+    info.locked = true;
+  }
+
+  if (layer.layerColor && layer.layerColor !== "none") {
+    info.layerColor = layer.layerColor;
+  }
+
   if (textInfo) {
     info.text = textInfo;
   }
 
   if (layer.children && layer.children.length > 0) {
-    info.children = layer.children.map(extractLayerInfo);
+    info.children = layer.children.map((child) =>
+      extractLayerInfo(child, profile, layerPath),
+    );
   }
 
   return info;
 }
 
+// Parsed PSD cache (LRU, bounded by estimated memory)
+interface CachedPsd {
+  psd: Psd;
+  bytes: number;
+}
+
+const PSD_CACHE_BUDGET =
+  (Number(process.env.PSD_CACHE_MAX_MB) || 512) * 1024 * 1024;
+const psdCache = new Map<string, CachedPsd>();
+let psdCacheBytes = 0;
+
+// Rough memory footprint of a parsed document: source size plus decoded pixels
+function estimatePsdBytes(psd: Psd, fileSize: number): number {
+  let bytes = fileSize;
+  if (psd.canvas) {
+    bytes += psd.canvas.width * psd.canvas.height * 4;
+  }
+
+  function traverse(items: Layer[]) {
+    for (const layer of items) {
+      if (layer.canvas) {
+        bytes += layer.canvas.width * layer.canvas.height * 4;
+      }
+      if (layer.mask?.canvas) {
+        bytes += layer.mask.canvas.width * layer.mask.canvas.height * 4;
+      }
+      if (layer.children) {
+        traverse(layer.children);
+      }
+    }
+  }
+
+  traverse(psd.children || []);
+  return bytes;
+}
+
+// Read and parse a PSD, reusing the cached document while the file is unchanged
+function loadPsd(filePath: string, options: ReadOptions): Psd {
+  const absolutePath = path.resolve(filePath);
+  const stat = fs.statSync(absolutePath);
+  const version = `${absolutePath}|${stat.mtimeMs}|${stat.size}|`;
+  const key = version + JSON.stringify(options, Object.keys(options).sort());
+
+  const cached = psdCache.get(key);
+  if (cached) {
+    // Move to most-recently-used position
+    psdCache.delete(key);
+    psdCache.set(key, cached);
+    return cached.psd;
+  }
+
+  // Drop stale entries for previous versions of this file
+  for (const [existingKey, entry] of psdCache) {
+    if (
+      existingKey.startsWith(`${absolutePath}|`) &&
+      !existingKey.startsWith(version)
+    ) {
+      psdCache.delete(existingKey);
+      psdCacheBytes -= entry.bytes;
+    }
+  }
+
+  const buffer = fs.readFileSync(absolutePath);
+  const psd = readPsdWithProfile(buffer, options);
+  const bytes = estimatePsdBytes(psd, buffer.length);
+
+  // Documents larger than the whole budget are not cached
+  if (bytes <= PSD_CACHE_BUDGET) {
+    while (psdCacheBytes + bytes > PSD_CACHE_BUDGET && psdCache.size > 0) {
+      const [oldestKey, oldest] = psdCache.entries().next().value!;
+      psdCache.delete(oldestKey);
+      psdCacheBytes -= oldest.bytes;
+    }
+    psdCache.set(key, { psd, bytes });
+    psdCacheBytes += bytes;
+  }
+
+  return psd;
+}
+
+// Shift bounds of layers inside artboards so they are relative to the artboard frame
+function applyArtboardRelativeBounds(
+  layers: LayerInfo[],
+  artboard?: LayerInfo,
+): void {
+  for (const layer of layers) {
+    if (artboard?.artboard) {
+      const { left, top } = artboard.artboard;
+      layer.bounds = {
+        ...layer.bounds,
+        left: layer.bounds.left - left,
+        top: layer.bounds.top - top,
+      };
+      if (layer.maskBounds) {
+        layer.maskBounds = {
+          ...layer.maskBounds,
+          left: layer.maskBounds.left - left,
+          top: layer.maskBounds.top - top,
+        };
+      }
+      layer.relativeTo = artboard.name;
+    }
+    if (layer.children) {
+      applyArtboardRelativeBounds(
+        layer.children,
+        layer.artboard ? layer : artboard,
+      );
+    }
+  }
+}
+
 // Parse PSD file
-function parsePsdFile(filePath: string): PsdInfo {
+function parsePsdFile(
+  filePath: string,
+  options: { relativeToArtboard?: boolean } = {},
+): PsdInfo {
   const absolutePath = path.resolve(filePath);
 
   if (!fs.existsSync(absolutePath)) {
     throw new Error(`File not found: ${absolutePath}`);
   }
 
-  const buffer = fs.readFileSync(absolutePath);
-  const psd = readPsd(buffer, {
+  const psd = loadPsd(absolutePath, {
     skipCompositeImageData: true,
     skipLayerImageData: true,
     skipThumbnail: true,
@@ -148,27 +773,30 @@ function parsePsdFile(filePath: string): PsdInfo {
     9: "Lab",
   };
 
+  const profile = documentProfile(psd);
+  const layers =
+    psd.children?.map((layer) => extractLayerInfo(layer, profile)) || [];
+  if (options.relativeToArtboard) {
+    applyArtboardRelativeBounds(layers);
+  }
+
   return {
     width: psd.width,
     height: psd.height,
     colorMode: colorModes[psd.colorMode ?? 3] || "Unknown",
     bitsPerChannel: psd.bitsPerChannel ?? 8,
-    layers: psd.children?.map(extractLayerInfo) || [],
+    colorProfile: profile?.description || undefined,
+    layers,
   };
 }
 
 // Convert VectorContent color to CSS color string
 function vectorContentToColor(
   content: VectorContent | undefined,
+  profile: ColorProfile | null,
 ): string | undefined {
-  if (!content) return undefined;
-  if (content.type === "color") {
-    const color = content.color;
-    if ("r" in color) {
-      return `rgb(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)})`;
-    }
-  }
-  return undefined;
+  if (content?.type !== "color") return undefined;
+  return colorToHex(content.color, profile, 100);
 }
 
 // Convert Bezier paths to SVG path data
@@ -263,7 +891,12 @@ function getAllVectorLayers(layers: Layer[]): Layer[] {
 }
 
 // Convert a vector layer to SVG string
-function vectorLayerToSvg(layer: Layer, width: number, height: number): string {
+function vectorLayerToSvg(
+  layer: Layer,
+  width: number,
+  height: number,
+  profile: ColorProfile | null,
+): string {
   if (!layer.vectorMask) {
     throw new Error("Layer does not have vector data");
   }
@@ -272,12 +905,13 @@ function vectorLayerToSvg(layer: Layer, width: number, height: number): string {
   const svgPath = bezierPathsToSvgPath(paths, width, height);
 
   // Get fill color
-  const fillColor = vectorContentToColor(layer.vectorFill) || "#000000";
+  const fillColor =
+    vectorContentToColor(layer.vectorFill, profile) || "#000000";
 
   // Get stroke info
   const stroke = layer.vectorStroke;
   const strokeColor = stroke?.content
-    ? vectorContentToColor(stroke.content)
+    ? vectorContentToColor(stroke.content, profile)
     : undefined;
   const strokeWidth = stroke?.lineWidth?.value || 0;
   const strokeEnabled = stroke?.strokeEnabled !== false && strokeWidth > 0;
@@ -352,18 +986,156 @@ function getImageLayersFromGroup(layers: Layer[], groupName: string): Layer[] {
   return getAllImageLayers(group.children);
 }
 
-// Export layer canvas to image buffer (PNG or JPG)
-function layerToImageBuffer(
-  layer: Layer,
+// Unambiguous layer selector accepted by tools alongside name matching
+interface LayerSelector {
+  layerId?: number;
+  layerPath?: string;
+}
+
+function hasLayerSelector(selector: LayerSelector): boolean {
+  return selector.layerId !== undefined || !!selector.layerPath;
+}
+
+// Normalize a user-supplied path ("/Header/Nav/" -> "Header/Nav")
+function normalizeLayerPath(layerPath: string): string {
+  return splitLayerPath(layerPath).join("/");
+}
+
+// Map every layer to its canonical path
+function buildLayerPathMap(layers: Layer[]): Map<Layer, string> {
+  const result = new Map<Layer, string>();
+
+  function traverse(items: Layer[], parentPath: string) {
+    for (const layer of items) {
+      const layerPath = joinLayerPath(parentPath, layer.name || "Unnamed");
+      result.set(layer, layerPath);
+      if (layer.children) {
+        traverse(layer.children, layerPath);
+      }
+    }
+  }
+
+  traverse(layers, "");
+  return result;
+}
+
+// Pick the single match for a selector, or explain why there is none
+function pickSelectedLayer<T>(
+  matches: T[],
+  selector: LayerSelector,
+  describe: (item: T) => string,
+): T {
+  const label =
+    selector.layerId !== undefined
+      ? `with id ${selector.layerId}`
+      : `at path "${selector.layerPath}"`;
+
+  if (matches.length === 0) {
+    throw new Error(`Layer ${label} not found`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Layer ${label} is ambiguous (${matches.length} matches). Use layerId instead:\n${matches.map((m) => `  - ${describe(m)}`).join("\n")}`,
+    );
+  }
+  return matches[0];
+}
+
+// Find a layer by stable ID or full path
+function selectLayer(layers: Layer[], selector: LayerSelector): Layer {
+  const targetPath = selector.layerPath
+    ? normalizeLayerPath(selector.layerPath)
+    : undefined;
+  const pathMap = buildLayerPathMap(layers);
+  const matches: Layer[] = [];
+
+  for (const [layer, layerPath] of pathMap) {
+    const match =
+      selector.layerId !== undefined
+        ? layer.id === selector.layerId
+        : layerPath === targetPath;
+    if (match) {
+      matches.push(layer);
+    }
+  }
+
+  return pickSelectedLayer(
+    matches,
+    selector,
+    (layer) => `${pathMap.get(layer)} (id: ${layer.id ?? "none"})`,
+  );
+}
+
+// Resolve a layer from tool arguments: layerId/layerPath, or name + layerIndex
+function resolveLayer(
+  layers: Layer[],
+  args: LayerSelector & { layerName?: string; layerIndex?: number },
+  filter: (layer: Layer) => boolean = () => true,
+): Layer {
+  if (hasLayerSelector(args)) {
+    return selectLayer(layers, args);
+  }
+  if (!args.layerName) {
+    throw new Error("Specify layerName, layerId or layerPath");
+  }
+
+  const layerName = args.layerName;
+  const pathMap = buildLayerPathMap(layers);
+  const matchingLayers = [...pathMap.keys()].filter(
+    (l) => filter(l) && l.name?.toLowerCase().includes(layerName.toLowerCase()),
+  );
+
+  if (matchingLayers.length === 0) {
+    throw new Error(`Layer "${layerName}" not found`);
+  }
+
+  // If multiple matches and no index specified, show options
+  if (matchingLayers.length > 1 && args.layerIndex === undefined) {
+    const options = matchingLayers
+      .map(
+        (l, i) =>
+          `  ${i}: "${l.name}" (id: ${l.id ?? "none"}, path: ${pathMap.get(l)})`,
+      )
+      .join("\n");
+    throw new Error(
+      `Found ${matchingLayers.length} layers matching "${layerName}". Please specify layerIndex or layerId:\n\n${options}`,
+    );
+  }
+
+  const targetIndex = args.layerIndex ?? 0;
+  if (targetIndex >= matchingLayers.length) {
+    throw new Error(
+      `layerIndex ${targetIndex} is out of range. Only ${matchingLayers.length} layer(s) found.`,
+    );
+  }
+  return matchingLayers[targetIndex];
+}
+
+// Region of the document in pixels
+interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Encode a canvas (or a region of it) as PNG or JPG at the given scale
+function canvasToImageBuffer(
+  srcCanvas: any,
+  profile: ColorProfile | null,
   scale: number = 2,
   format: "png" | "jpg" = "png",
   quality: number = 90,
-): Buffer | null {
-  if (!layer.canvas) return null;
-
-  const srcCanvas = layer.canvas as any;
-  const width = srcCanvas.width * scale;
-  const height = srcCanvas.height * scale;
+  region?: PixelRect,
+): Buffer {
+  const src = region ?? {
+    left: 0,
+    top: 0,
+    width: srcCanvas.width,
+    height: srcCanvas.height,
+  };
+  const width = Math.max(1, Math.round(src.width * scale));
+  const height = Math.max(1, Math.round(src.height * scale));
 
   // Create scaled canvas
   const canvas = createCanvas(width, height);
@@ -377,7 +1149,18 @@ function layerToImageBuffer(
 
   // Scale and draw
   ctx.scale(scale, scale);
-  ctx.drawImage(srcCanvas, 0, 0);
+  ctx.drawImage(
+    srcCanvas,
+    src.left,
+    src.top,
+    src.width,
+    src.height,
+    0,
+    0,
+    src.width,
+    src.height,
+  );
+  convertCanvasToSrgb(ctx, width, height, profile);
 
   if (format === "jpg") {
     return canvas.toBuffer("image/jpeg", { quality: quality / 100 });
@@ -385,61 +1168,730 @@ function layerToImageBuffer(
   return canvas.toBuffer("image/png");
 }
 
-// Sanitize filename
-function sanitizeFilename(name: string): string {
-  return name.replace(/[<>:"/\\|?*]/g, "_").replace(/\s+/g, "_");
+// Export layer canvas to image buffer (PNG or JPG)
+function layerToImageBuffer(
+  layer: Layer,
+  profile: ColorProfile | null,
+  scale: number = 2,
+  format: "png" | "jpg" = "png",
+  quality: number = 90,
+): Buffer | null {
+  if (!layer.canvas) return null;
+  return canvasToImageBuffer(layer.canvas, profile, scale, format, quality);
 }
 
-// Color extraction types
-interface ExtractedColor {
-  hex: string;
-  rgb: { r: number; g: number; b: number };
-  source: string;
-  layerName: string;
-}
+// Photoshop blend modes that canvas can reproduce
+const CANVAS_BLEND_MODES: Partial<Record<BlendMode, string>> = {
+  normal: "source-over",
+  multiply: "multiply",
+  screen: "screen",
+  overlay: "overlay",
+  darken: "darken",
+  lighten: "lighten",
+  "color dodge": "color-dodge",
+  "color burn": "color-burn",
+  "hard light": "hard-light",
+  "soft light": "soft-light",
+  difference: "difference",
+  exclusion: "exclusion",
+  hue: "hue",
+  saturation: "saturation",
+  color: "color",
+  luminosity: "luminosity",
+  "linear dodge": "lighter",
+};
+
+// Composite visible layers bottom-to-top (used when the file has no merged image)
+function compositeLayers(layers: Layer[], width: number, height: number): any {
+  const canvas = createCanvas(width, height);
 
-interface GradientInfo {
-  name?: string;
-  colors: string[];
-  source: string;
-  layerName: string;
-}
+  function drawLayers(ctx: any, items: Layer[]) {
+    for (const layer of items) {
+      if (layer.hidden) continue;
+      const opacity = layer.opacity ?? 1;
+      const blendMode =
+        (layer.blendMode && CANVAS_BLEND_MODES[layer.blendMode]) ||
+        "source-over";
 
-interface ColorPalette {
-  solidColors: ExtractedColor[];
-  gradients: GradientInfo[];
-  uniqueColors: string[];
-}
+      if (layer.children) {
+        if (layer.blendMode === "pass through" && opacity === 1) {
+          drawLayers(ctx, layer.children);
+          continue;
+        }
+        // Isolated group: flatten children first, then blend as one layer
+        const groupCanvas = createCanvas(width, height);
+        drawLayers(groupCanvas.getContext("2d"), layer.children);
+        ctx.save();
+        ctx.globalAlpha = opacity;
+        ctx.globalCompositeOperation = blendMode;
+        ctx.drawImage(groupCanvas, 0, 0);
+        ctx.restore();
+      } else if (layer.canvas) {
+        ctx.save();
+        ctx.globalAlpha = opacity * (layer.fillOpacity ?? 1);
+        ctx.globalCompositeOperation = blendMode;
+        ctx.drawImage(layer.canvas, layer.left ?? 0, layer.top ?? 0);
+        ctx.restore();
+      }
+    }
+  }
 
-// Convert any Color type to hex
-function anyColorToHex(color: any): string | null {
-  if (!color) return null;
+  drawLayers(canvas.getContext("2d"), layers);
+  return canvas;
+}
 
-  let r: number, g: number, b: number;
+// Union of the pixel bounds of visible layers in a stack
+function visibleLayerBounds(layers: Layer[]): PixelRect | null {
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
 
-  // FRGB format (0-1 range)
-  if (typeof color.fr === "number") {
-    r = Math.round(color.fr * 255);
-    g = Math.round(color.fg * 255);
-    b = Math.round(color.fb * 255);
+  function traverse(items: Layer[]) {
+    for (const layer of items) {
+      if (layer.hidden) continue;
+      if (layer.children) {
+        traverse(layer.children);
+      } else if (layer.canvas) {
+        left = Math.min(left, layer.left ?? 0);
+        top = Math.min(top, layer.top ?? 0);
+        right = Math.max(right, layer.right ?? 0);
+        bottom = Math.max(bottom, layer.bottom ?? 0);
+      }
+    }
   }
-  // RGB/RGBA format (0-255 range)
-  else if (typeof color.r === "number") {
-    r = Math.round(color.r);
-    g = Math.round(color.g);
+
+  traverse(layers);
+  if (right <= left || bottom <= top) return null;
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Scale that fits an image within maxSize on its longest side (never upscales)
+function fitScale(width: number, height: number, maxSize: number): number {
+  const longest = Math.max(width, height);
+  return longest > maxSize ? maxSize / longest : 1;
+}
+
+// Render a layer or group to a PNG preview no larger than maxSize
+function renderLayerPreview(
+  layer: Layer,
+  width: number,
+  height: number,
+  maxSize: number,
+  profile: ColorProfile | null,
+): { buffer: Buffer; rect: PixelRect; scale: number } | null {
+  if (layer.children) {
+    const rect = visibleLayerBounds(layer.children);
+    if (!rect) return null;
+    const canvas = compositeLayers(layer.children, width, height);
+    const scale = fitScale(rect.width, rect.height, maxSize);
+    return {
+      buffer: canvasToImageBuffer(canvas, profile, scale, "png", 90, rect),
+      rect,
+      scale,
+    };
+  }
+
+  if (!layer.canvas) return null;
+  const rect = {
+    left: layer.left ?? 0,
+    top: layer.top ?? 0,
+    width: layer.canvas.width,
+    height: layer.canvas.height,
+  };
+  const scale = fitScale(rect.width, rect.height, maxSize);
+  return {
+    buffer: canvasToImageBuffer(layer.canvas, profile, scale, "png"),
+    rect,
+    scale,
+  };
+}
+
+// Get all artboard layers
+function getAllArtboards(layers: Layer[]): Layer[] {
+  const result: Layer[] = [];
+
+  function traverse(items: Layer[]) {
+    for (const layer of items) {
+      if (layer.artboard) {
+        result.push(layer);
+      }
+      if (layer.children) {
+        traverse(layer.children);
+      }
+    }
+  }
+
+  traverse(layers);
+  return result;
+}
+
+// Find an artboard by name (partial match, case-insensitive)
+function findArtboard(layers: Layer[], name: string): Layer {
+  const artboards = getAllArtboards(layers);
+  const match = artboards.find((l) =>
+    l.name?.toLowerCase().includes(name.toLowerCase()),
+  );
+  if (!match) {
+    const suggestions = artboards.map((l) => l.name).join(", ");
+    throw new Error(
+      `Artboard "${name}" not found.\n\nAvailable artboards: ${suggestions || "none"}`,
+    );
+  }
+  return match;
+}
+
+// Artboard frame in document pixels
+function artboardRect(layer: Layer): PixelRect {
+  const rect = layer.artboard!.rect;
+  return {
+    left: rect.left,
+    top: rect.top,
+    width: rect.right - rect.left,
+    height: rect.bottom - rect.top,
+  };
+}
+
+// Clamp a region to the document bounds
+function clampRect(rect: PixelRect, width: number, height: number): PixelRect {
+  const left = Math.max(0, Math.min(width, Math.round(rect.left)));
+  const top = Math.max(0, Math.min(height, Math.round(rect.top)));
+  const right = Math.max(
+    left,
+    Math.min(width, Math.round(rect.left + rect.width)),
+  );
+  const bottom = Math.max(
+    top,
+    Math.min(height, Math.round(rect.top + rect.height)),
+  );
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Load the flattened document image, compositing layers if no merged data was saved
+function loadCompositeCanvas(absolutePath: string): {
+  psd: Psd;
+  canvas: any;
+  source: "merged" | "composited";
+} {
+  const psd = loadPsd(absolutePath, {
+    skipCompositeImageData: false,
+    skipLayerImageData: true,
+    skipThumbnail: true,
+  });
+
+  const hasMergedData =
+    psd.imageResources?.versionInfo?.hasRealMergedData !== false;
+  if (psd.canvas && hasMergedData) {
+    return { psd, canvas: psd.canvas, source: "merged" };
+  }
+
+  // Saved without "maximize compatibility": rebuild from layer pixels
+  const layeredPsd = loadPsd(absolutePath, {
+    skipCompositeImageData: true,
+    skipLayerImageData: false,
+    skipThumbnail: true,
+  });
+  return {
+    psd: layeredPsd,
+    canvas: compositeLayers(
+      layeredPsd.children || [],
+      layeredPsd.width,
+      layeredPsd.height,
+    ),
+    source: "composited",
+  };
+}
+
+// Sanitize filename
+function sanitizeFilename(name: string): string {
+  return name.replace(/[<>:"/\\|?*]/g, "_").replace(/\s+/g, "_");
+}
+
+// Sanitize a name and add a number suffix if it was already used
+function uniqueFilename(
+  name: string,
+  usedFilenames: Map<string, number>,
+): string {
+  const baseName = sanitizeFilename(name);
+  const count = usedFilenames.get(baseName) || 0;
+  usedFilenames.set(baseName, count + 1);
+  if (count === 0) {
+    return baseName;
+  }
+  return `${baseName}_${String(count).padStart(2, "0")}`;
+}
+
+// Slice definition (Save for Web) in document pixels
+interface SliceInfo {
+  id: number;
+  name: string;
+  group: string;
+  origin: "userGenerated" | "autoGenerated" | "layer";
+  type: "image" | "noImage";
+  bounds: PixelRect;
+  layerId?: number;
+  url?: string;
+  target?: string;
+  altTag?: string;
+  message?: string;
+  cellText?: string;
+  backgroundColor?: string;
+}
+
+// Collect slices from all slice groups in the image resources
+function extractSlices(psd: Psd): SliceInfo[] {
+  const result: SliceInfo[] = [];
+  const profile = documentProfile(psd);
+
+  for (const group of psd.imageResources?.slices || []) {
+    for (const slice of group.slices || []) {
+      const info: SliceInfo = {
+        id: slice.id,
+        name: slice.name || `slice_${String(slice.id).padStart(2, "0")}`,
+        group: group.groupName,
+        origin: slice.origin,
+        type: slice.type,
+        bounds: {
+          left: slice.bounds.left,
+          top: slice.bounds.top,
+          width: slice.bounds.right - slice.bounds.left,
+          height: slice.bounds.bottom - slice.bounds.top,
+        },
+      };
+      if (slice.origin === "layer") info.layerId = slice.associatedLayerId;
+      if (slice.url) info.url = slice.url;
+      if (slice.target) info.target = slice.target;
+      if (slice.altTag) info.altTag = slice.altTag;
+      if (slice.message) info.message = slice.message;
+      if (slice.cellText) info.cellText = slice.cellText;
+      if (slice.backgroundColorType === "color" && slice.backgroundColor) {
+        info.backgroundColor =
+          anyColorToHex(slice.backgroundColor, profile) ?? undefined;
+      }
+      result.push(info);
+    }
+  }
+
+  return result;
+}
+
+// Color extraction types
+interface ExtractedColor {
+  hex: string;
+  rgb: { r: number; g: number; b: number };
+  source: string;
+  layerName: string;
+  // Pixel area of the layer the color was found on
+  area: number;
+  // Display P3 value of a color that sRGB cannot show
+  displayP3?: string;
+}
+
+interface GradientInfo {
+  name?: string;
+  colors: string[];
+  source: string;
+  layerName: string;
+}
+
+interface ColorPalette {
+  solidColors: ExtractedColor[];
+  gradients: GradientInfo[];
+  uniqueColors: string[];
+}
+
+// Color management
+
+type Matrix3 = [
+  [number, number, number],
+  [number, number, number],
+  [number, number, number],
+];
+
+function multiplyMatrix3(m: Matrix3, v: number[]): [number, number, number] {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2],
+  ];
+}
+
+// Photoshop Lab and ICC profile connection space use a D50 white point;
+// these matrices adapt to D65 (Bradford) on the way to sRGB and Display P3
+const D50_WHITE = [0.96422, 1, 0.82521];
+const XYZ_D50_TO_LINEAR_SRGB: Matrix3 = [
+  [3.1338561, -1.6168667, -0.4906146],
+  [-0.9787684, 1.9161415, 0.033454],
+  [0.0719453, -0.2289914, 1.4052427],
+];
+const XYZ_D50_TO_LINEAR_P3: Matrix3 = [
+  [2.4041231, -0.9898428, -0.397637],
+  [-0.8422146, 1.7988147, 0.0160547],
+  [0.0481763, -0.0973554, 1.2732341],
+];
+// Out-of-gamut tolerance for rounding noise in 0-1 linear channels
+const GAMUT_EPSILON = 0.002;
+
+function srgbCompand(linear: number): number {
+  const sign = linear < 0 ? -1 : 1;
+  const abs = Math.abs(linear);
+  return (
+    sign *
+    (abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055)
+  );
+}
+
+function srgbLinearize(value: number): number {
+  return value <= 0.04045
+    ? value / 12.92
+    : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+// CIE XYZ (D50) from CIELAB (D50)
+function labToXyzD50(
+  l: number,
+  a: number,
+  b: number,
+): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const finv = (t: number) =>
+    t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27);
+  return [
+    finv(fx) * D50_WHITE[0],
+    l > 8 ? Math.pow(fy, 3) : l / (24389 / 27),
+    finv(fz) * D50_WHITE[2],
+  ];
+}
+
+// Embedded ICC profile, with the matrix/TRC model of RGB profiles
+interface ColorProfile {
+  description: string;
+  colorSpace: string;
+  isSrgb: boolean;
+  // Per-channel tone curves to linear light (0-1 in, 0-1 out)
+  curves?: ((value: number) => number)[];
+  // Linear RGB to XYZ (D50)
+  matrix?: Matrix3;
+}
+
+// ICC profile bytes from the image resources section (id 1039), which
+// ag-psd reads past without keeping
+function readIccProfileData(buffer: Buffer): Buffer | null {
+  if (buffer.length < 30 || buffer.toString("ascii", 0, 4) !== "8BPS") {
+    return null;
+  }
+  let offset = 26;
+  offset += 4 + buffer.readUInt32BE(offset); // color mode data
+  const resourcesEnd = offset + 4 + buffer.readUInt32BE(offset);
+  offset += 4;
+  while (offset + 12 <= resourcesEnd) {
+    if (buffer.toString("ascii", offset, offset + 4) !== "8BIM") return null;
+    const id = buffer.readUInt16BE(offset + 4);
+    const nameLength = buffer.readUInt8(offset + 6);
+    offset += 6 + ((nameLength + 2) & ~1); // padded Pascal string
+    const size = buffer.readUInt32BE(offset);
+    offset += 4;
+    if (id === 1039) return buffer.subarray(offset, offset + size);
+    offset += (size + 1) & ~1;
+  }
+  return null;
+}
+
+// Tone curve from an ICC 'curv' or 'para' tag
+function readIccCurve(
+  data: Buffer,
+  offset: number,
+): ((value: number) => number) | null {
+  const type = data.toString("ascii", offset, offset + 4);
+  if (type === "curv") {
+    const count = data.readUInt32BE(offset + 8);
+    if (count === 0) return (v) => v;
+    if (count === 1) {
+      const gamma = data.readUInt16BE(offset + 12) / 256;
+      return (v) => Math.pow(v, gamma);
+    }
+    const table = Array.from(
+      { length: count },
+      (_, i) => data.readUInt16BE(offset + 12 + i * 2) / 65535,
+    );
+    return (v) => {
+      const position = Math.min(1, Math.max(0, v)) * (count - 1);
+      const i = Math.min(count - 2, Math.floor(position));
+      return table[i] + (table[i + 1] - table[i]) * (position - i);
+    };
+  }
+  if (type === "para") {
+    const kind = data.readUInt16BE(offset + 8);
+    const counts = [1, 3, 4, 5, 7];
+    if (kind >= counts.length) return null;
+    const p = Array.from(
+      { length: counts[kind] },
+      (_, i) => data.readInt32BE(offset + 12 + i * 4) / 65536,
+    );
+    const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = p;
+    switch (kind) {
+      case 0:
+        return (v) => Math.pow(v, g);
+      case 1:
+        return (v) => (v >= -b / a ? Math.pow(a * v + b, g) : 0);
+      case 2:
+        return (v) => (v >= -b / a ? Math.pow(a * v + b, g) + c : c);
+      case 3:
+        return (v) => (v >= d ? Math.pow(a * v + b, g) : c * v);
+      default:
+        return (v) => (v >= d ? Math.pow(a * v + b, g) + e : c * v + f);
+    }
+  }
+  return null;
+}
+
+// Description, color space and matrix/TRC model of an ICC profile
+function parseIccProfile(data: Buffer): ColorProfile | null {
+  if (data.length < 132 || data.toString("ascii", 36, 40) !== "acsp") {
+    return null;
+  }
+  const tags = new Map<string, number>();
+  const tagCount = data.readUInt32BE(128);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > data.length) break;
+    tags.set(
+      data.toString("ascii", entry, entry + 4),
+      data.readUInt32BE(entry + 4),
+    );
+  }
+
+  let description = "";
+  const descOffset = tags.get("desc");
+  if (descOffset !== undefined) {
+    const type = data.toString("ascii", descOffset, descOffset + 4);
+    if (type === "desc") {
+      const length = data.readUInt32BE(descOffset + 8);
+      description = data
+        .toString("latin1", descOffset + 12, descOffset + 12 + length)
+        .replace(/\0+$/, "");
+    } else if (type === "mluc") {
+      const length = data.readUInt32BE(descOffset + 20);
+      const start = descOffset + data.readUInt32BE(descOffset + 24);
+      const utf16 = Buffer.from(data.subarray(start, start + length));
+      description = utf16.swap16().toString("utf16le");
+    }
+  }
+
+  const colorSpace = data.toString("ascii", 16, 20).trim();
+  const profile: ColorProfile = {
+    description,
+    colorSpace,
+    isSrgb: /srgb/i.test(description),
+  };
+
+  const readXyz = (sig: string) => {
+    const offset = tags.get(sig);
+    if (offset === undefined) return null;
+    return [0, 1, 2].map((i) => data.readInt32BE(offset + 8 + i * 4) / 65536);
+  };
+  if (colorSpace === "RGB") {
+    const columns = ["rXYZ", "gXYZ", "bXYZ"].map(readXyz);
+    const curves = ["rTRC", "gTRC", "bTRC"].map((sig) =>
+      tags.has(sig) ? readIccCurve(data, tags.get(sig)!) : null,
+    );
+    if (columns.every(Boolean) && curves.every(Boolean)) {
+      const [r, g, b] = columns as number[][];
+      profile.matrix = [
+        [r[0], g[0], b[0]],
+        [r[1], g[1], b[1]],
+        [r[2], g[2], b[2]],
+      ];
+      profile.curves = curves as ((value: number) => number)[];
+    }
+  }
+  return profile;
+}
+
+// Embedded color profile of each parsed document
+const psdProfiles = new WeakMap<Psd, ColorProfile>();
+
+// Parse a document and keep its embedded color profile with it
+function readPsdWithProfile(
+  buffer: Buffer<ArrayBuffer>,
+  options: ReadOptions,
+): Psd {
+  const psd = readPsd(buffer, options);
+  const iccData = readIccProfileData(buffer);
+  const profile = iccData ? parseIccProfile(iccData) : null;
+  if (profile) psdProfiles.set(psd, profile);
+  return psd;
+}
+
+// Color profile of a document (null when none is embedded)
+function documentProfile(psd: Psd): ColorProfile | null {
+  return psdProfiles.get(psd) ?? null;
+}
+
+// RGB values (0-255) are in the document's color space; convert them to
+// sRGB when the document has a non-sRGB matrix profile (Adobe RGB, Display P3)
+function documentRgbToXyz(
+  r: number,
+  g: number,
+  b: number,
+  profile: ColorProfile | null,
+): [number, number, number] | null {
+  if (!profile || profile.isSrgb || !profile.matrix || !profile.curves) {
+    return null;
+  }
+  const [rc, gc, bc] = profile.curves;
+  return multiplyMatrix3(profile.matrix, [
+    rc(r / 255),
+    gc(g / 255),
+    bc(b / 255),
+  ]);
+}
+
+// Convert exported pixels from the document's RGB profile to sRGB
+function convertCanvasToSrgb(
+  ctx: any,
+  width: number,
+  height: number,
+  profile: ColorProfile | null,
+): void {
+  if (!profile || profile.isSrgb || !profile.matrix || !profile.curves) return;
+
+  const m = XYZ_D50_TO_LINEAR_SRGB.map((row) =>
+    [0, 1, 2].map((j) =>
+      row.reduce((sum, value, k) => sum + value * profile.matrix![k][j], 0),
+    ),
+  );
+  const inputs = profile.curves.map((curve) =>
+    Float32Array.from({ length: 256 }, (_, i) => curve(i / 255)),
+  );
+  const output = Uint8ClampedArray.from({ length: 4096 }, (_, i) =>
+    Math.round(srgbCompand(i / 4095) * 255),
+  );
+  const encode = (linear: number) =>
+    output[Math.round(Math.min(1, Math.max(0, linear)) * 4095)];
+
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = inputs[0][data[i]];
+    const g = inputs[1][data[i + 1]];
+    const b = inputs[2][data[i + 2]];
+    data[i] = encode(m[0][0] * r + m[0][1] * g + m[0][2] * b);
+    data[i + 1] = encode(m[1][0] * r + m[1][1] * g + m[1][2] * b);
+    data[i + 2] = encode(m[2][0] * r + m[2][1] * g + m[2][2] * b);
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+// Color resolved to sRGB, with the Display P3 value when sRGB cannot show it
+interface ResolvedColor {
+  hex: string;
+  outOfGamut: boolean;
+  displayP3?: string;
+}
+
+function resolveXyzD50(xyz: [number, number, number]): ResolvedColor {
+  const linear = multiplyMatrix3(XYZ_D50_TO_LINEAR_SRGB, xyz);
+  const outOfGamut = linear.some(
+    (c) => c < -GAMUT_EPSILON || c > 1 + GAMUT_EPSILON,
+  );
+  const hex = linearRgbToHex(linear);
+  if (!outOfGamut) return { hex, outOfGamut };
+  const p3 = multiplyMatrix3(XYZ_D50_TO_LINEAR_P3, xyz).map((c) =>
+    roundCss(Math.min(1, Math.max(0, srgbCompand(c))), 4),
+  );
+  return { hex, outOfGamut, displayP3: `color(display-p3 ${p3.join(" ")})` };
+}
+
+// Clipped #RRGGBB from linear sRGB
+function linearRgbToHex(linear: number[]): string {
+  return (
+    "#" +
+    linear
+      .map((c) =>
+        Math.round(Math.min(1, Math.max(0, srgbCompand(c))) * 255)
+          .toString(16)
+          .padStart(2, "0"),
+      )
+      .join("")
+      .toUpperCase()
+  );
+}
+
+// Scale of CMYK and gray inks, which depends on where ag-psd read the color:
+// percentages in descriptors, 0-255 in text engine data and binary color records
+type InkRange = 100 | 255;
+
+// Resolve any ag-psd color to sRGB with gamut information
+function resolveColor(
+  color: Color | undefined,
+  profile: ColorProfile | null,
+  inkRange: InkRange = 100,
+): ResolvedColor | null {
+  if (!color) return null;
+
+  // Photoshop Lab is D50-relative
+  if ("l" in color) {
+    return resolveXyzD50(labToXyzD50(color.l, color.a, color.b));
+  }
+
+  const rgb = deviceColorToRgb(color, inkRange);
+  if (!rgb) return null;
+
+  // CMYK and gray colors have no embedded profile to convert through
+  if (!("k" in color)) {
+    const xyz = documentRgbToXyz(rgb[0], rgb[1], rgb[2], profile);
+    if (xyz) return resolveXyzD50(xyz);
+  }
+  const hex = rgb
+    .map((c) =>
+      Math.round(Math.max(0, Math.min(255, c)))
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("");
+  return { hex: `#${hex}`.toUpperCase(), outOfGamut: false };
+}
+
+// Convert any Color type to hex (sRGB)
+function anyColorToHex(
+  color: Color | undefined,
+  profile: ColorProfile | null,
+  inkRange: InkRange = 100,
+): string | null {
+  return resolveColor(color, profile, inkRange)?.hex ?? null;
+}
+
+// Device RGB (0-255) of an RGB, HSB, CMYK or gray color, without color management
+function deviceColorToRgb(
+  color: Color | undefined,
+  inkRange: InkRange,
+): [number, number, number] | null {
+  if (!color) return null;
+
+  let r: number, g: number, b: number;
+
+  // FRGB format (0-1 range)
+  if ("fr" in color) {
+    r = Math.round(color.fr * 255);
+    g = Math.round(color.fg * 255);
+    b = Math.round(color.fb * 255);
+  }
+  // RGB/RGBA format (0-255 range)
+  else if ("r" in color) {
+    r = Math.round(color.r);
+    g = Math.round(color.g);
     b = Math.round(color.b);
   }
   // Grayscale
-  else if (typeof color.k === "number" && !("c" in color)) {
-    const gray = Math.round((1 - color.k) * 255);
+  else if ("k" in color && !("c" in color)) {
+    const gray = Math.round((1 - color.k / inkRange) * 255);
     r = g = b = gray;
   }
   // HSB - convert to RGB
-  else if (
-    typeof color.h === "number" &&
-    typeof color.s === "number" &&
-    typeof color.b === "number"
-  ) {
+  else if ("h" in color) {
     const h = color.h / 360;
     const s = color.s;
     const v = color.b;
@@ -486,89 +1938,57 @@ function anyColorToHex(color: any): string | null {
     g = Math.round(g);
     b = Math.round(b);
   }
-  // LAB - simplified conversion
-  else if (typeof color.l === "number" && typeof color.a === "number") {
-    // Simplified LAB to RGB
-    const y = (color.l + 16) / 116;
-    const x = color.a / 500 + y;
-    const z = y - color.b / 200;
-
-    const x3 = x * x * x;
-    const y3 = y * y * y;
-    const z3 = z * z * z;
-
-    const xn = x3 > 0.008856 ? x3 : (x - 16 / 116) / 7.787;
-    const yn = y3 > 0.008856 ? y3 : (y - 16 / 116) / 7.787;
-    const zn = z3 > 0.008856 ? z3 : (z - 16 / 116) / 7.787;
-
-    // XYZ to RGB
-    const xr = xn * 0.95047;
-    const yr = yn * 1.0;
-    const zr = zn * 1.08883;
-
-    r = Math.round(
-      Math.max(
-        0,
-        Math.min(255, (xr * 3.2406 + yr * -1.5372 + zr * -0.4986) * 255),
-      ),
-    );
-    g = Math.round(
-      Math.max(
-        0,
-        Math.min(255, (xr * -0.9689 + yr * 1.8758 + zr * 0.0415) * 255),
-      ),
-    );
-    b = Math.round(
-      Math.max(
-        0,
-        Math.min(255, (xr * 0.0557 + yr * -0.204 + zr * 1.057) * 255),
-      ),
-    );
-  }
   // CMYK
-  else if (
-    typeof color.c === "number" &&
-    typeof color.m === "number" &&
-    typeof color.y === "number" &&
-    typeof color.k === "number"
-  ) {
-    r = Math.round(255 * (1 - color.c) * (1 - color.k));
-    g = Math.round(255 * (1 - color.m) * (1 - color.k));
-    b = Math.round(255 * (1 - color.y) * (1 - color.k));
+  else if ("c" in color) {
+    const k = color.k / inkRange;
+    r = Math.round(255 * (1 - color.c / inkRange) * (1 - k));
+    g = Math.round(255 * (1 - color.m / inkRange) * (1 - k));
+    b = Math.round(255 * (1 - color.y / inkRange) * (1 - k));
   } else {
     return null;
   }
 
-  // Clamp values
-  r = Math.max(0, Math.min(255, r));
-  g = Math.max(0, Math.min(255, g));
-  b = Math.max(0, Math.min(255, b));
-
-  return `#${r.toString(16).padStart(2, "0")}${g.toString(16).padStart(2, "0")}${b.toString(16).padStart(2, "0")}`.toUpperCase();
+  return [r, g, b];
 }
 
 // Extract all colors from a layer
 function extractColorsFromLayer(
   layer: Layer,
   layerName: string,
+  profile: ColorProfile | null,
 ): { colors: ExtractedColor[]; gradients: GradientInfo[] } {
   const colors: ExtractedColor[] = [];
   const gradients: GradientInfo[] = [];
-
-  const addColor = (color: any, source: string) => {
-    const hex = anyColorToHex(color);
-    if (hex) {
+  const area =
+    Math.max(0, (layer.right ?? 0) - (layer.left ?? 0)) *
+    Math.max(0, (layer.bottom ?? 0) - (layer.top ?? 0));
+
+  const addColor = (
+    color: Color | undefined,
+    source: string,
+    inkRange: InkRange = 100,
+  ) => {
+    const resolved = resolveColor(color, profile, inkRange);
+    if (resolved) {
+      const { hex, displayP3 } = resolved;
       const r = parseInt(hex.slice(1, 3), 16);
       const g = parseInt(hex.slice(3, 5), 16);
       const b = parseInt(hex.slice(5, 7), 16);
-      colors.push({ hex, rgb: { r, g, b }, source, layerName });
+      colors.push({
+        hex,
+        rgb: { r, g, b },
+        source,
+        layerName,
+        area,
+        ...(displayP3 ? { displayP3 } : {}),
+      });
     }
   };
 
   const addGradient = (gradient: any, source: string) => {
     if (gradient?.colorStops) {
       const gradientColors = gradient.colorStops
-        .map((stop: any) => anyColorToHex(stop.color))
+        .map((stop: any) => anyColorToHex(stop.color, profile))
         .filter((c: string | null): c is string => c !== null);
       if (gradientColors.length > 0) {
         gradients.push({
@@ -583,7 +2003,7 @@ function extractColorsFromLayer(
 
   // Text color
   if (layer.text?.style?.fillColor) {
-    addColor(layer.text.style.fillColor, "text");
+    addColor(layer.text.style.fillColor, "text", 255);
   }
 
   // Vector fill
@@ -673,7 +2093,10 @@ function extractColorsFromLayer(
 }
 
 // Extract all colors from PSD
-function extractAllColors(layers: Layer[]): ColorPalette {
+function extractAllColors(
+  layers: Layer[],
+  profile: ColorProfile | null,
+): ColorPalette {
   const allColors: ExtractedColor[] = [];
   const allGradients: GradientInfo[] = [];
 
@@ -682,6 +2105,7 @@ function extractAllColors(layers: Layer[]): ColorPalette {
       const { colors, gradients } = extractColorsFromLayer(
         layer,
         layer.name || "Unnamed",
+        profile,
       );
       allColors.push(...colors);
       allGradients.push(...gradients);
@@ -704,498 +2128,5633 @@ function extractAllColors(layers: Layer[]): ColorPalette {
   };
 }
 
-// Format layers as tree structure
-function formatLayerTree(layers: LayerInfo[], prefix: string = ""): string {
-  const lines: string[] = [];
+// CIELAB (D65) from an sRGB color
+function rgbToLab(rgb: { r: number; g: number; b: number }): {
+  l: number;
+  a: number;
+  b: number;
+} {
+  const linear = [rgb.r, rgb.g, rgb.b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  const [r, g, b] = linear;
+  const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / 0.95047;
+  const y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
+  const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) / 1.08883;
+  const f = (t: number) =>
+    t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116;
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
 
-  layers.forEach((layer, index) => {
-    const isLast = index === layers.length - 1;
-    const connector = isLast ? "└── " : "├── ";
-    const childPrefix = isLast ? "    " : "│   ";
+// CIEDE2000 color difference between two CIELAB colors
+function deltaE2000(
+  lab1: { l: number; a: number; b: number },
+  lab2: { l: number; a: number; b: number },
+): number {
+  const rad = Math.PI / 180;
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cMean7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + Math.pow(25, 7))));
+  const a1 = lab1.a * (1 + g);
+  const a2 = lab2.a * (1 + g);
+  const cp1 = Math.hypot(a1, lab1.b);
+  const cp2 = Math.hypot(a2, lab2.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const hp1 = hue(lab1.b, a1);
+  const hp2 = hue(lab2.b, a2);
+
+  const dL = lab2.l - lab1.l;
+  const dC = cp2 - cp1;
+  let dh = 0;
+  if (cp1 * cp2 !== 0) {
+    dh = hp2 - hp1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin((dh / 2) * rad);
+
+  const lMean = (lab1.l + lab2.l) / 2;
+  const cMean = (cp1 + cp2) / 2;
+  let hMean = hp1 + hp2;
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) <= 180) hMean /= 2;
+    else hMean = hMean < 360 ? (hMean + 360) / 2 : (hMean - 360) / 2;
+  }
+  const t =
+    1 -
+    0.17 * Math.cos((hMean - 30) * rad) +
+    0.24 * Math.cos(2 * hMean * rad) +
+    0.32 * Math.cos((3 * hMean + 6) * rad) -
+    0.2 * Math.cos((4 * hMean - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((hMean - 275) / 25, 2));
+  const cMeanP7 = Math.pow(cMean, 7);
+  const rc = 2 * Math.sqrt(cMeanP7 / (cMeanP7 + Math.pow(25, 7)));
+  const sl =
+    1 +
+    (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2));
+  const sc = 1 + 0.045 * cMean;
+  const sh = 1 + 0.015 * cMean * t;
+  const rt = -Math.sin(2 * dTheta * rad) * rc;
+
+  return Math.sqrt(
+    Math.pow(dL / sl, 2) +
+      Math.pow(dC / sc, 2) +
+      Math.pow(dH / sh, 2) +
+      rt * (dC / sc) * (dH / sh),
+  );
+}
 
-    const typeLabel =
-      layer.type === "group"
-        ? "(group)"
-        : layer.type === "text"
-          ? "(text)"
-          : layer.type === "image"
-            ? "(image)"
-            : layer.type === "shape"
-              ? "(shape)"
-              : "";
+// Perceptually similar colors merged under their most used member
+interface ColorCluster {
+  hex: string;
+  count: number;
+  area: number;
+  layers: string[];
+  sources: string[];
+  members: { hex: string; count: number; area: number; deltaE: number }[];
+}
 
-    const visibilityMark = layer.visible ? "" : " [hidden]";
-    lines.push(
-      `${prefix}${connector}${layer.name} ${typeLabel}${visibilityMark}`,
-    );
+// Greedy clustering: colors are visited by usage and join the first cluster
+// whose representative is within the CIEDE2000 threshold
+function clusterColors(
+  colors: ExtractedColor[],
+  threshold: number,
+): ColorCluster[] {
+  const usage = new Map<
+    string,
+    {
+      rgb: ExtractedColor["rgb"];
+      count: number;
+      area: number;
+      layers: Set<string>;
+      sources: Set<string>;
+    }
+  >();
+  for (const color of colors) {
+    const entry = usage.get(color.hex) ?? {
+      rgb: color.rgb,
+      count: 0,
+      area: 0,
+      layers: new Set<string>(),
+      sources: new Set<string>(),
+    };
+    entry.count++;
+    entry.area += color.area;
+    entry.layers.add(color.layerName);
+    entry.sources.add(color.source);
+    usage.set(color.hex, entry);
+  }
 
-    if (layer.children && layer.children.length > 0) {
-      lines.push(formatLayerTree(layer.children, prefix + childPrefix));
+  const byUsage = (
+    a: { count: number; area: number },
+    b: { count: number; area: number },
+  ) => b.count - a.count || b.area - a.area;
+  const clusters: (ColorCluster & { lab: ReturnType<typeof rgbToLab> })[] = [];
+  for (const [hex, entry] of [...usage.entries()].sort((a, b) =>
+    byUsage(a[1], b[1]),
+  )) {
+    const lab = rgbToLab(entry.rgb);
+    let best: { cluster: (typeof clusters)[number]; deltaE: number } | null =
+      null;
+    for (const cluster of clusters) {
+      const deltaE = deltaE2000(cluster.lab, lab);
+      if (deltaE <= threshold && (!best || deltaE < best.deltaE)) {
+        best = { cluster, deltaE };
+      }
     }
-  });
+    const member = {
+      hex,
+      count: entry.count,
+      area: entry.area,
+      deltaE: roundCss(best?.deltaE ?? 0),
+    };
+    const cluster = best?.cluster;
+    if (cluster) {
+      cluster.count += entry.count;
+      cluster.area += entry.area;
+      cluster.members.push(member);
+      entry.layers.forEach((layer) => {
+        if (!cluster.layers.includes(layer)) cluster.layers.push(layer);
+      });
+      entry.sources.forEach((source) => {
+        if (!cluster.sources.includes(source)) cluster.sources.push(source);
+      });
+    } else {
+      clusters.push({
+        hex,
+        lab,
+        count: entry.count,
+        area: entry.area,
+        layers: [...entry.layers],
+        sources: [...entry.sources],
+        members: [member],
+      });
+    }
+  }
 
-  return lines.join("\n");
+  return clusters.sort(byUsage).map(({ lab: _lab, ...cluster }) => cluster);
 }
 
-// Find layer by name (recursive search)
-function findLayerByName(
-  layers: LayerInfo[],
-  name: string,
-  exact: boolean = false,
-): LayerInfo | null {
-  for (const layer of layers) {
-    const match = exact
-      ? layer.name === name
-      : layer.name.toLowerCase().includes(name.toLowerCase());
+// Contrast of a text layer against the background underneath it
+interface ContrastResult {
+  id?: number;
+  path: string;
+  text: string;
+  color: string | null;
+  background: string | null;
+  backgroundSource: string;
+  fontSize?: number;
+  fontWeight: number;
+  largeText: boolean;
+  ratio?: number;
+  apca?: number;
+  aa?: boolean;
+  aaa?: boolean;
+  apcaMinimum: number;
+  apcaPass?: boolean;
+}
 
-    if (match) {
-      return layer;
-    }
+function hexToRgbArray(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", "").slice(0, 6), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
 
-    if (layer.children) {
-      const found = findLayerByName(layer.children, name, exact);
-      if (found) return found;
+function rgbArrayToHex(rgb: number[]): string {
+  return `#${rgb
+    .map((c) =>
+      Math.round(Math.max(0, Math.min(255, c)))
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`.toUpperCase();
+}
+
+// WCAG 2.x contrast ratio between two sRGB colors
+function wcagContrastRatio(foreground: string, background: string): number {
+  const luminance = (hex: string) => {
+    const [r, g, b] = hexToRgbArray(hex).map((c) => srgbLinearize(c / 255));
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const l1 = luminance(foreground);
+  const l2 = luminance(background);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+// APCA lightness contrast (Lc) of text on a background, APCA-W3 0.0.98G-4g
+function apcaContrast(text: string, background: string): number {
+  const luminance = (hex: string) => {
+    const [r, g, b] = hexToRgbArray(hex).map((c) => Math.pow(c / 255, 2.4));
+    const y = 0.2126729 * r + 0.7151522 * g + 0.072175 * b;
+    return y > 0.022 ? y : y + Math.pow(0.022 - y, 1.414);
+  };
+  const yText = luminance(text);
+  const yBackground = luminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    // Dark text on a light background
+    const sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  // Light text on a dark background (negative Lc)
+  const sapc = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+// WCAG large text: at least 18pt (24px), or 14pt (18.66px) bold
+function isLargeText(fontSize: number, fontWeight: number): boolean {
+  return fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+}
+
+// Minimum APCA Lc for a text size and weight (APCA bronze simple mode)
+function apcaMinimumLc(fontSize: number, fontWeight: number): number {
+  if (fontSize >= 36 || (fontSize >= 24 && fontWeight >= 700)) return 45;
+  if (fontSize >= 24 || (fontSize >= 16 && fontWeight >= 700)) return 60;
+  return 75;
+}
+
+// Most common color in a band around a rect. The rect itself holds the text
+// pixels, so staying outside it needs no guess about which pixels are glyphs.
+function dominantBackgroundColor(
+  canvas: any,
+  rect: PixelRect,
+  margin: number,
+): string | null {
+  const region = clampRect(
+    {
+      left: rect.left - margin,
+      top: rect.top - margin,
+      width: rect.width + margin * 2,
+      height: rect.height + margin * 2,
+    },
+    canvas.width,
+    canvas.height,
+  );
+  if (region.width <= 0 || region.height <= 0) return null;
+  const data = canvas
+    .getContext("2d")
+    .getImageData(region.left, region.top, region.width, region.height).data;
+
+  // Sample at most ~40k pixels of large text blocks
+  const step = Math.max(
+    1,
+    Math.floor(Math.sqrt((region.width * region.height) / 40000)),
+  );
+  const buckets = new Map<number, { count: number; sum: number[] }>();
+  for (let y = 0; y < region.height; y += step) {
+    for (let x = 0; x < region.width; x += step) {
+      const inside =
+        region.left + x >= rect.left &&
+        region.left + x < rectRight(rect) &&
+        region.top + y >= rect.top &&
+        region.top + y < rectBottom(rect);
+      if (inside) continue;
+      const i = (y * region.width + x) * 4;
+      if (data[i + 3] < 128) continue;
+      const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+      bucket.count++;
+      bucket.sum[0] += r;
+      bucket.sum[1] += g;
+      bucket.sum[2] += b;
+      buckets.set(key, bucket);
     }
   }
-  return null;
+
+  let best: { count: number; sum: number[] } | null = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+  return best ? rgbArrayToHex(best.sum.map((c) => c / best!.count)) : null;
 }
 
-// Search layers by name (returns all matches)
-function searchLayersByName(layers: LayerInfo[], name: string): LayerInfo[] {
-  const results: LayerInfo[] = [];
+// Blend a translucent color over an opaque background
+function blendHex(color: string, background: string, alpha: number): string {
+  const fg = hexToRgbArray(color);
+  const bg = hexToRgbArray(background);
+  return rgbArrayToHex(fg.map((c, i) => c * alpha + bg[i] * (1 - alpha)));
+}
 
-  function traverse(items: LayerInfo[]) {
+// WCAG and APCA contrast of every visible text layer. Backgrounds come from
+// the closest opaque solid fill or artboard below the text; anything else
+// (images, gradients, partial overlap) is sampled from the composite.
+function checkTextContrast(
+  layers: Layer[],
+  profile: ColorProfile | null,
+  loadComposite: () => any,
+): ContrastResult[] {
+  const paths = buildLayerPathMap(layers);
+  const painted: { layer: Layer; rect: PixelRect; artboard?: ArtboardFrame }[] =
+    [];
+
+  function traverse(items: Layer[]) {
     for (const layer of items) {
-      if (layer.name.toLowerCase().includes(name.toLowerCase())) {
-        results.push(layer);
+      if (layer.hidden) continue;
+      if (layer.artboard) {
+        const frame = extractArtboardFrame(layer, profile);
+        painted.push({ layer, rect: frame, artboard: frame });
       }
       if (layer.children) {
         traverse(layer.children);
+      } else {
+        const rect = {
+          left: layer.left ?? 0,
+          top: layer.top ?? 0,
+          width: (layer.right ?? 0) - (layer.left ?? 0),
+          height: (layer.bottom ?? 0) - (layer.top ?? 0),
+        };
+        if (rect.width > 0 && rect.height > 0) painted.push({ layer, rect });
       }
     }
   }
-
   traverse(layers);
-  return results;
-}
 
-// Get text layers only (flattened)
-function getTextLayers(layers: LayerInfo[]): LayerInfo[] {
-  const result: LayerInfo[] = [];
+  let composite: any;
+  let compositeError: string | null = null;
+  const sample = (rect: PixelRect) => {
+    if (composite === undefined && !compositeError) {
+      try {
+        composite = loadComposite();
+      } catch (error) {
+        compositeError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return composite ? dominantBackgroundColor(composite, rect, 4) : null;
+  };
 
-  function traverse(items: LayerInfo[]) {
-    for (const layer of items) {
-      if (layer.type === "text") {
-        result.push(layer);
+  const results: ContrastResult[] = [];
+  painted.forEach((entry, index) => {
+    const { layer, rect } = entry;
+    if (!layer.text) return;
+    const runs = extractTextRuns(layer.text, profile);
+    if (runs.length === 0) {
+      runs.push(
+        textStyleToRunInfo(
+          layer.text.style ?? {},
+          0,
+          layer.text.text.length,
+          layer.text.text,
+          profile,
+          textTransformScale(layer.text),
+        ),
+      );
+    }
+
+    // Background: first layer below that covers the text
+    let background: string | null = "#FFFFFF";
+    let backgroundSource = "document (assumed white)";
+    for (let j = index - 1; j >= 0; j--) {
+      const below = painted[j];
+      const overlaps =
+        below.rect.left < rectRight(rect) &&
+        rectRight(below.rect) > rect.left &&
+        below.rect.top < rectBottom(rect) &&
+        rectBottom(below.rect) > rect.top;
+      if (!overlaps) continue;
+
+      const fill =
+        below.artboard?.backgroundColor ??
+        (below.layer.vectorFill?.type === "color" &&
+        !below.layer.effects?.gradientOverlay?.some((o) => o.enabled !== false)
+          ? anyColorToHex(below.layer.vectorFill.color, profile)
+          : null);
+      const opaque =
+        (below.layer.opacity ?? 1) * (below.layer.fillOpacity ?? 1) >= 0.99 &&
+        (below.layer.blendMode ?? "normal") === "normal";
+      if (containsRect(below.rect, rect) && fill && opaque) {
+        background = fill.toUpperCase();
+        backgroundSource = below.artboard
+          ? `artboard ${paths.get(below.layer)}`
+          : `layer ${paths.get(below.layer)}`;
+      } else {
+        background = sample(rect);
+        backgroundSource = background
+          ? "sampled from composite"
+          : `unknown (${compositeError ?? "no background pixels"})`;
       }
-      if (layer.children) {
-        traverse(layer.children);
+      break;
+    }
+
+    // Worst run of the layer decides, at the size it is displayed
+    const alpha = (layer.opacity ?? 1) * (layer.fillOpacity ?? 1);
+    let worst: ContrastResult | null = null;
+    for (const run of runs) {
+      if (!run.text.trim()) continue;
+      const fontSize = run.fontSize ?? 16;
+      const fontWeight = run.fontWeight ?? 400;
+      // Without a fill color there is nothing to measure
+      const color = !run.color
+        ? null
+        : background && alpha < 1
+          ? blendHex(run.color, background, alpha)
+          : run.color.toUpperCase();
+      const ratio =
+        color && background
+          ? roundCss(wcagContrastRatio(color, background))
+          : undefined;
+      const apca =
+        color && background
+          ? roundCss(apcaContrast(color, background), 1)
+          : undefined;
+      const largeText = isLargeText(fontSize, fontWeight);
+      const apcaMinimum = apcaMinimumLc(fontSize, fontWeight);
+      const result: ContrastResult = {
+        path: paths.get(layer) ?? layer.name ?? "Unnamed",
+        ...(layer.id !== undefined ? { id: layer.id } : {}),
+        text: layer.text.text.replace(/\s+/g, " ").trim().slice(0, 40),
+        color,
+        background,
+        backgroundSource,
+        fontSize,
+        fontWeight,
+        largeText,
+        ratio,
+        apca,
+        aa: ratio === undefined ? undefined : ratio >= (largeText ? 3 : 4.5),
+        aaa: ratio === undefined ? undefined : ratio >= (largeText ? 4.5 : 7),
+        apcaMinimum,
+        apcaPass:
+          apca === undefined ? undefined : Math.abs(apca) >= apcaMinimum,
+      };
+      if (!worst || (result.ratio ?? Infinity) < (worst.ratio ?? Infinity)) {
+        worst = result;
       }
     }
-  }
+    if (worst) results.push(worst);
+  });
 
-  traverse(layers);
-  return result;
+  return results;
 }
 
-// Note: Image layer export removed for simplicity
-// For image layers, you can export them from Photoshop/Affinity separately
+// CSS generation helpers
+function roundCss(value: number, digits: number = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
 
-// Font extraction types
-interface FontUsage {
-  fontName: string;
-  sizes: number[];
-  styles: {
-    regular: boolean;
-    bold: boolean;
-    italic: boolean;
-    fauxBold: boolean;
-    fauxItalic: boolean;
+function unitsToPx(value: UnitsValue | undefined): number {
+  return value?.value ?? 0;
+}
+
+// CSS color from any PSD color, as hex or rgba() when translucent
+function cssColor(
+  color: Color | undefined,
+  profile: ColorProfile | null,
+  alpha: number = 1,
+  inkRange: InkRange = 100,
+): string | null {
+  const hex = anyColorToHex(color, profile, inkRange);
+  if (!hex) return null;
+  if (alpha >= 1) return hex;
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return `rgba(${r}, ${g}, ${b}, ${roundCss(alpha)})`;
+}
+
+// Class name derived from a layer name ("Primary Button" -> "primary-button")
+function cssClassName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return /^[a-z]/.test(slug) ? slug : `layer-${slug || "unnamed"}`;
+}
+
+// Photoshop light angle + distance to CSS shadow offset
+function shadowOffset(
+  angle: number,
+  distance: number,
+): { x: number; y: number } {
+  const rad = (angle * Math.PI) / 180;
+  return {
+    x: roundCss(-Math.cos(rad) * distance),
+    y: roundCss(Math.sin(rad) * distance),
   };
-  layers: string[];
-  colors: string[];
 }
 
-// Extract all fonts from text layers
-function extractAllFonts(layers: Layer[]): Map<string, FontUsage> {
-  const fontMap = new Map<string, FontUsage>();
+// Drop or inner shadow resolved to pixel offsets
+interface ShadowInfo {
+  inset: boolean;
+  x: number;
+  y: number;
+  blur: number;
+  spread: number;
+  color: Color | undefined;
+  opacity: number;
+}
 
-  function addFont(
-    fontName: string,
-    fontSize: number | undefined,
-    style: any,
-    layerName: string,
-  ) {
-    if (!fontName) return;
+// Enabled drop shadows followed by inner shadows of a layer
+function layerShadows(layer: Layer, globalAngle: number = 120): ShadowInfo[] {
+  const effects = layer.effects?.disabled ? undefined : layer.effects;
+  const result: ShadowInfo[] = [];
+  const add = (shadow: LayerEffectShadow, inset: boolean) => {
+    if (shadow.enabled === false) return;
+    const angle = shadow.useGlobalLight
+      ? globalAngle
+      : (shadow.angle ?? globalAngle);
+    const { x, y } = shadowOffset(angle, unitsToPx(shadow.distance));
+    const size = unitsToPx(shadow.size);
+    const spread = (size * unitsToPx(shadow.choke)) / 100;
+    result.push({
+      inset,
+      x,
+      y,
+      blur: roundCss(size - spread),
+      spread: roundCss(spread),
+      color: shadow.color,
+      opacity: shadow.opacity ?? 1,
+    });
+  };
+  effects?.dropShadow?.forEach((shadow) => add(shadow, false));
+  effects?.innerShadow?.forEach((shadow) => add(shadow, true));
+  return result;
+}
 
-    if (!fontMap.has(fontName)) {
-      fontMap.set(fontName, {
-        fontName,
-        sizes: [],
-        styles: {
-          regular: false,
-          bold: false,
-          italic: false,
-          fauxBold: false,
-          fauxItalic: false,
-        },
-        layers: [],
-        colors: [],
-      });
-    }
+function shadowToCss(shadow: ShadowInfo, profile: ColorProfile | null): string {
+  const color = cssColor(shadow.color, profile, shadow.opacity) ?? "#000000";
+  return `${shadow.inset ? "inset " : ""}${shadow.x}px ${shadow.y}px ${shadow.blur}px ${shadow.spread}px ${color}`;
+}
 
-    const usage = fontMap.get(fontName)!;
+// CSS mix-blend-mode for a Photoshop blend mode (null for normal)
+function cssBlendMode(mode: BlendMode | string | undefined): string | null {
+  if (!mode || mode === "normal" || mode === "pass through") return null;
+  const mapped = CANVAS_BLEND_MODES[mode as BlendMode];
+  if (!mapped) return null;
+  return mapped === "lighter" ? "plus-lighter" : mapped;
+}
 
-    // Add size
-    if (fontSize && !usage.sizes.includes(fontSize)) {
-      usage.sizes.push(fontSize);
+// Gradient overlay with the angle ag-psd reads but leaves out of its typings
+type GradientOverlayEffect = LayerEffectGradientOverlay & { angle?: number };
+
+// CSS gradient from a Photoshop gradient (Photoshop 0deg points right, CSS 0deg points up)
+function gradientToCss(
+  gradient: EffectSolidGradient | EffectNoiseGradient | undefined,
+  profile: ColorProfile | null,
+  angle: number = 90,
+  style: string = "linear",
+  reverse: boolean = false,
+  alpha: number = 1,
+): string | null {
+  if (!gradient || !("colorStops" in gradient)) return null;
+  if (gradient.colorStops.length === 0) return null;
+
+  let stops = gradient.colorStops.map((stop) => ({
+    color: cssColor(stop.color, profile, alpha) ?? "transparent",
+    location: stop.location,
+  }));
+  if (reverse) {
+    stops = stops
+      .map((stop) => ({
+        ...stop,
+        location: 1 - stop.location,
+      }))
+      .reverse();
+  }
+
+  const stopList = stops
+    .map((stop) => `${stop.color} ${roundCss(stop.location * 100)}%`)
+    .join(", ");
+  if (style === "radial") {
+    return `radial-gradient(circle, ${stopList})`;
+  }
+  const cssAngle = (((90 - angle) % 360) + 360) % 360;
+  return `linear-gradient(${roundCss(cssAngle)}deg, ${stopList})`;
+}
+
+// CSS border-radius from the shape's live rectangle/ellipse properties
+function cornerRadiusToCss(layer: Layer): string | null {
+  const origin = layer.vectorOrigination?.keyDescriptorList?.[0];
+  if (!origin) return null;
+
+  // keyOriginType 5 is an ellipse
+  if (origin.keyOriginType === 5) return "50%";
+
+  const radii = origin.keyOriginRRectRadii;
+  if (!radii) return null;
+  const values = [
+    radii.topLeft,
+    radii.topRight,
+    radii.bottomRight,
+    radii.bottomLeft,
+  ].map((r) => roundCss(unitsToPx(r)));
+  if (values.every((v) => v === 0)) return null;
+  if (values.every((v) => v === values[0])) return `${values[0]}px`;
+  return values.map((v) => `${v}px`).join(" ");
+}
+
+interface LayerCss {
+  properties: [string, string][];
+  notes: string[];
+}
+
+// Convert a layer's fill, stroke, effects, opacity and blend mode into CSS
+function layerToCss(
+  layer: Layer,
+  profile: ColorProfile | null,
+  globalAngle: number = 120,
+): LayerCss {
+  const properties: [string, string][] = [];
+  const notes: string[] = [];
+  const isText = !!layer.text;
+  const fillOpacity = layer.fillOpacity ?? 1;
+  const effects = layer.effects?.disabled ? undefined : layer.effects;
+  const enabled = (effect: { enabled?: boolean } | undefined) =>
+    !!effect && effect.enabled !== false;
+
+  // Size (text boxes flow with their content)
+  if (!isText) {
+    const width = (layer.right ?? 0) - (layer.left ?? 0);
+    const height = (layer.bottom ?? 0) - (layer.top ?? 0);
+    if (width > 0 && height > 0) {
+      properties.push(["width", `${width}px`]);
+      properties.push(["height", `${height}px`]);
     }
+  }
 
-    // Track styles
-    if (style?.fauxBold) {
-      usage.styles.fauxBold = true;
-    } else if (style?.fauxItalic) {
-      usage.styles.fauxItalic = true;
-    } else {
-      // Check font name for style hints
-      const nameLower = fontName.toLowerCase();
-      if (nameLower.includes("bold")) {
-        usage.styles.bold = true;
-      } else if (
-        nameLower.includes("italic") ||
-        nameLower.includes("oblique")
-      ) {
-        usage.styles.italic = true;
-      } else {
-        usage.styles.regular = true;
+  // Fill: color overlay and gradient overlay take precedence over the layer's own fill
+  const colorOverlay = effects?.solidFill?.find(enabled);
+  const gradientOverlay: GradientOverlayEffect | undefined =
+    effects?.gradientOverlay?.find(enabled);
+  const fillProperty = isText ? "color" : "background-color";
+
+  if (colorOverlay?.color) {
+    const color = cssColor(
+      colorOverlay.color,
+      profile,
+      colorOverlay.opacity ?? 1,
+    );
+    if (color) properties.push([fillProperty, color]);
+  } else if (isText && layer.text?.style?.fillColor) {
+    const color = cssColor(
+      layer.text.style.fillColor,
+      profile,
+      fillOpacity,
+      255,
+    );
+    if (color) properties.push(["color", color]);
+  } else if (layer.vectorFill?.type === "color") {
+    const color = cssColor(layer.vectorFill.color, profile, fillOpacity);
+    if (color) properties.push(["background-color", color]);
+  } else if (layer.vectorFill && "colorStops" in layer.vectorFill) {
+    const gradient = gradientToCss(
+      layer.vectorFill,
+      profile,
+      layer.vectorFill.angle,
+      layer.vectorFill.style,
+      layer.vectorFill.reverse,
+      fillOpacity,
+    );
+    if (gradient) properties.push(["background-image", gradient]);
+  } else if (layer.vectorFill?.type === "pattern") {
+    notes.push("Pattern fill: export the layer as an image instead");
+  } else if (
+    !isText &&
+    !layer.children &&
+    !layer.vectorMask &&
+    !layer.adjustment
+  ) {
+    notes.push("Raster layer: use an exported image as background or <img>");
+  }
+
+  if (gradientOverlay?.gradient) {
+    const gradient = gradientToCss(
+      gradientOverlay.gradient,
+      profile,
+      gradientOverlay.angle,
+      gradientOverlay.type,
+      gradientOverlay.reverse,
+      gradientOverlay.opacity ?? 1,
+    );
+    if (gradient) {
+      properties.push(["background-image", gradient]);
+      if (isText) {
+        properties.push(["background-clip", "text"]);
+        properties.push(["-webkit-background-clip", "text"]);
+        properties.push(["color", "transparent"]);
       }
     }
+  }
 
-    // Add layer name
-    if (!usage.layers.includes(layerName)) {
-      usage.layers.push(layerName);
+  // Strokes: shape stroke and stroke effect
+  const strokes: {
+    width: number;
+    color: string;
+    position: string;
+    dashed: boolean;
+  }[] = [];
+  const shapeStroke = layer.vectorStroke;
+  if (
+    shapeStroke?.strokeEnabled !== false &&
+    shapeStroke?.content?.type === "color" &&
+    unitsToPx(shapeStroke.lineWidth) > 0
+  ) {
+    const color = cssColor(
+      shapeStroke.content.color,
+      profile,
+      shapeStroke.opacity ?? 1,
+    );
+    if (color) {
+      strokes.push({
+        width: roundCss(unitsToPx(shapeStroke.lineWidth)),
+        color,
+        position: shapeStroke.lineAlignment ?? "center",
+        dashed: (shapeStroke.lineDashSet?.length ?? 0) > 0,
+      });
+    }
+  }
+  for (const stroke of effects?.stroke ?? []) {
+    if (!enabled(stroke)) continue;
+    if (stroke.fillType && stroke.fillType !== "color") {
+      notes.push(`Stroke effect with ${stroke.fillType} fill approximated`);
+    }
+    const gradientColor =
+      stroke.gradient && "colorStops" in stroke.gradient
+        ? stroke.gradient.colorStops[0]?.color
+        : undefined;
+    const color = cssColor(
+      stroke.color ?? gradientColor,
+      profile,
+      stroke.opacity ?? 1,
+    );
+    if (color) {
+      strokes.push({
+        width: roundCss(unitsToPx(stroke.size)),
+        color,
+        position: stroke.position ?? "outside",
+        dashed: false,
+      });
     }
+  }
 
-    // Add color
-    if (style?.fillColor) {
-      const hex = anyColorToHex(style.fillColor);
-      if (hex && !usage.colors.includes(hex)) {
-        usage.colors.push(hex);
-      }
+  for (const stroke of strokes) {
+    const value = `${stroke.width}px ${stroke.dashed ? "dashed" : "solid"} ${stroke.color}`;
+    if (isText) {
+      properties.push([
+        "-webkit-text-stroke",
+        `${stroke.width}px ${stroke.color}`,
+      ]);
+    } else if (stroke.position === "outside") {
+      properties.push(["outline", value]);
+    } else {
+      properties.push(["border", value]);
+      properties.push(["box-sizing", "border-box"]);
     }
   }
 
-  function traverse(items: Layer[]) {
-    for (const layer of items) {
-      if (layer.text) {
-        const layerName = layer.name || "Unnamed";
+  // Shadows
+  const shadows: string[] = [];
+  const textShadows: string[] = [];
+  for (const shadow of layerShadows(layer, globalAngle)) {
+    if (!isText) {
+      shadows.push(shadowToCss(shadow, profile));
+    } else if (shadow.inset) {
+      notes.push("Inner shadow on text has no CSS equivalent");
+    } else {
+      textShadows.push(
+        `${shadow.x}px ${shadow.y}px ${shadow.blur}px ${cssColor(shadow.color, profile, shadow.opacity) ?? "#000000"}`,
+      );
+    }
+  }
+  if (enabled(effects?.innerGlow) && !isText) {
+    const glow = effects!.innerGlow!;
+    const color = cssColor(glow.color, profile, glow.opacity ?? 1) ?? "#FFFFFF";
+    shadows.push(`inset 0 0 ${roundCss(unitsToPx(glow.size))}px ${color}`);
+  }
+  if (shadows.length > 0) {
+    properties.push(["box-shadow", shadows.join(", ")]);
+  }
+  if (textShadows.length > 0) {
+    properties.push(["text-shadow", textShadows.join(", ")]);
+  }
 
-        // Check default style
-        if (layer.text.style?.font?.name) {
-          addFont(
-            layer.text.style.font.name,
-            layer.text.style.fontSize,
-            layer.text.style,
-            layerName,
-          );
-        }
+  // Filters: outer glow and smart-object blur
+  const filters: string[] = [];
+  if (enabled(effects?.outerGlow)) {
+    const glow = effects!.outerGlow!;
+    const color = cssColor(glow.color, profile, glow.opacity ?? 1) ?? "#FFFFFF";
+    filters.push(
+      `drop-shadow(0 0 ${roundCss(unitsToPx(glow.size))}px ${color})`,
+    );
+  }
+  for (const filter of layer.placedLayer?.filter?.list ?? []) {
+    if (filter.enabled && filter.type === "gaussian blur") {
+      filters.push(`blur(${roundCss(unitsToPx(filter.filter.radius))}px)`);
+    }
+  }
+  if (filters.length > 0) {
+    properties.push(["filter", filters.join(" ")]);
+  }
 
-        // Check style runs (for text with multiple fonts)
-        if (layer.text.styleRuns) {
-          for (const run of layer.text.styleRuns) {
-            if (run.style?.font?.name) {
-              addFont(
-                run.style.font.name,
-                run.style.fontSize,
-                run.style,
-                layerName,
-              );
-            }
-          }
-        }
-      }
+  // Shape
+  const radius = cornerRadiusToCss(layer);
+  if (radius) {
+    properties.push(["border-radius", radius]);
+  }
 
-      if (layer.children) {
-        traverse(layer.children);
-      }
-    }
+  // Compositing
+  if (layer.opacity !== undefined && layer.opacity < 1) {
+    properties.push(["opacity", `${roundCss(layer.opacity)}`]);
+  }
+  const blendMode = cssBlendMode(layer.blendMode);
+  if (blendMode) {
+    properties.push(["mix-blend-mode", blendMode]);
   }
 
-  traverse(layers);
+  // Effects without a CSS equivalent
+  if (enabled(effects?.bevel)) notes.push("Bevel & emboss is not converted");
+  if (enabled(effects?.satin)) notes.push("Satin is not converted");
+  if (enabled(effects?.patternOverlay)) {
+    notes.push("Pattern overlay is not converted");
+  }
 
-  // Sort sizes
-  for (const usage of fontMap.values()) {
-    usage.sizes.sort((a, b) => a - b);
+  // Wide-gamut colors are clipped to sRGB above
+  const { colors } = extractColorsFromLayer(
+    layer,
+    layer.name || "Unnamed",
+    profile,
+  );
+  const clipped = new Map(
+    colors
+      .filter((color) => color.displayP3)
+      .map((color) => [color.hex, color.displayP3]),
+  );
+  for (const [hex, displayP3] of clipped) {
+    notes.push(`${hex} is outside sRGB (${displayP3})`);
   }
 
-  return fontMap;
+  return { properties, notes };
 }
 
-// Smart Object Types
-interface SmartObjectInfo {
-  layerName: string;
-  type: "vector" | "raster" | "imageStack" | "unknown";
-  transform?: {
-    xx: number;
-    xy: number;
-    yx: number;
-    yy: number;
-    tx: number;
-    ty: number;
-  };
-  width?: number;
-  height?: number;
-  linkedFileId?: string;
-  linkedFileName?: string;
-  linkedFileType?: string;
-  hasEmbeddedData: boolean;
-  externalFilePath?: string; // Path if external file was found
+// Format CSS properties as a rule block
+function formatCssRule(
+  selector: string,
+  properties: [string, string][],
+  notes: string[] = [],
+): string {
+  const lines = [`${selector} {`];
+  for (const note of notes) {
+    lines.push(`  /* ${note} */`);
+  }
+  for (const [property, value] of properties) {
+    lines.push(`  ${property}: ${value};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
 }
 
-// Get all smart object layers from PSD
-function getAllSmartObjectLayers(
-  layers: Layer[],
-): { layer: Layer; path: string[] }[] {
-  const result: { layer: Layer; path: string[] }[] = [];
-
-  function traverse(items: Layer[], currentPath: string[]) {
-    for (const layer of items) {
-      if (layer.placedLayer) {
-        result.push({ layer, path: [...currentPath, layer.name || "Unnamed"] });
-      }
-      if (layer.children) {
-        traverse(layer.children, [...currentPath, layer.name || "Unnamed"]);
-      }
+// Visible extent of a layer; groups use the union of their visible children
+function layerContentBounds(layer: LayerInfo): PixelRect | null {
+  if (layer.artboard) {
+    const { left, top, width, height } = layer.artboard;
+    return { left, top, width, height };
+  }
+  if (layer.children) {
+    let left = Infinity;
+    let top = Infinity;
+    let right = -Infinity;
+    let bottom = -Infinity;
+    for (const child of layer.children) {
+      if (!child.visible || child.type === "adjustment") continue;
+      const rect = layerContentBounds(child);
+      if (!rect) continue;
+      left = Math.min(left, rect.left);
+      top = Math.min(top, rect.top);
+      right = Math.max(right, rect.left + rect.width);
+      bottom = Math.max(bottom, rect.top + rect.height);
     }
+    if (right <= left || bottom <= top) return null;
+    return { left, top, width: right - left, height: bottom - top };
   }
+  const { left, top, width, height } = layer.bounds;
+  return width > 0 && height > 0 ? { left, top, width, height } : null;
+}
 
-  traverse(layers, []);
-  return result;
+// Column grid in pixels relative to the frame it was inferred for
+interface ColumnGrid {
+  source: "guides" | "layers";
+  columns: number;
+  columnWidth: number;
+  gutter: number;
+  marginLeft: number;
+  marginRight: number;
+  confidence: "high" | "medium" | "low";
 }
 
-// Extract smart object information
-function extractSmartObjectInfo(
-  layer: Layer,
-  linkedFiles: any[] | undefined,
-  psdFilePath?: string,
-): SmartObjectInfo {
-  const placed = layer.placedLayer!;
+// True if all values are within tolerance of their average
+function isUniform(values: number[], tolerance: number): boolean {
+  if (values.length === 0) return true;
+  const avg = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.every((v) => Math.abs(v - avg) <= tolerance);
+}
 
-  // Determine type (ag-psd uses "image stack" not "imageStack")
-  let soType: SmartObjectInfo["type"] = "unknown";
-  if (placed.type === "vector") {
-    soType = "vector";
-  } else if (placed.type === "raster") {
-    soType = "raster";
-  } else if (placed.type === "image stack") {
-    soType = "imageStack";
-  }
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
 
-  // Find linked file
-  let linkedFile: any = undefined;
-  if (placed.id && linkedFiles) {
-    linkedFile = linkedFiles.find((f: any) => f.id === placed.id);
+// Infer columns from vertical guide positions (column edges, optionally paired with gutters)
+function inferGridFromGuides(
+  positions: number[],
+  frameWidth: number,
+): ColumnGrid | null {
+  const xs = [...new Set(positions.map((x) => roundCss(x, 1)))].sort(
+    (a, b) => a - b,
+  );
+  if (xs.length < 2) return null;
+
+  const spans = xs.slice(1).map((x, i) => x - xs[i]);
+  const tolerance = 1;
+  const marginLeft = xs[0];
+  const marginRight = frameWidth - xs[xs.length - 1];
+
+  // Pairs of guides: column, gutter, column, ... (odd number of spans)
+  if (spans.length >= 3 && spans.length % 2 === 1) {
+    const columnSpans = spans.filter((_, i) => i % 2 === 0);
+    const gutterSpans = spans.filter((_, i) => i % 2 === 1);
+    if (
+      isUniform(columnSpans, tolerance) &&
+      isUniform(gutterSpans, tolerance) &&
+      average(gutterSpans) < average(columnSpans)
+    ) {
+      return {
+        source: "guides",
+        columns: columnSpans.length,
+        columnWidth: roundCss(average(columnSpans)),
+        gutter: roundCss(average(gutterSpans)),
+        marginLeft,
+        marginRight,
+        confidence: "high",
+      };
+    }
   }
 
-  // Transform is an array [xx, xy, yx, yy, tx, ty] in ag-psd
-  const transform = placed.transform as number[] | undefined;
+  // Evenly spaced column edges without gutters
+  if (isUniform(spans, tolerance)) {
+    return {
+      source: "guides",
+      columns: spans.length,
+      columnWidth: roundCss(average(spans)),
+      gutter: 0,
+      marginLeft,
+      marginRight,
+      confidence: spans.length > 1 ? "high" : "medium",
+    };
+  }
 
-  // Check for external file if no embedded data
-  let externalFilePath: string | undefined;
-  const hasEmbeddedData = !!(linkedFile?.data && linkedFile.data.length > 0);
+  // Irregular guides: only the outer margins are trustworthy
+  return {
+    source: "guides",
+    columns: 1,
+    columnWidth: roundCss(xs[xs.length - 1] - xs[0]),
+    gutter: 0,
+    marginLeft,
+    marginRight,
+    confidence: "low",
+  };
+}
 
-  if (!hasEmbeddedData && linkedFile?.name && psdFilePath) {
-    const psdDir = path.dirname(psdFilePath);
-    const linkedFileName = linkedFile.name;
-    const possiblePaths = [
-      path.join(psdDir, linkedFileName),
-      path.join(psdDir, "Links", linkedFileName),
-      path.join(psdDir, "links", linkedFileName),
-      path.join(psdDir, "..", linkedFileName),
-    ];
-    for (const tryPath of possiblePaths) {
-      if (fs.existsSync(tryPath)) {
-        externalFilePath = tryPath;
-        break;
+// Infer columns from the horizontal edges of top-level groups
+function inferGridFromLayers(
+  rects: PixelRect[],
+  frameWidth: number,
+): ColumnGrid | null {
+  if (rects.length === 0) return null;
+
+  const lefts = [...new Set(rects.map((r) => Math.round(r.left)))].sort(
+    (a, b) => a - b,
+  );
+  const contentLeft = lefts[0];
+  const contentRight = Math.max(
+    ...rects.map((r) => Math.round(r.left + r.width)),
+  );
+  const contentWidth = contentRight - contentLeft;
+  const marginLeft = contentLeft;
+  const marginRight = frameWidth - contentRight;
+
+  // Smallest horizontal gap between side-by-side blocks is the gutter
+  let gutter = Infinity;
+  for (const a of rects) {
+    for (const b of rects) {
+      const gap = b.left - (a.left + a.width);
+      const overlapsVertically =
+        a.top < b.top + b.height && b.top < a.top + a.height;
+      if (gap > 0 && overlapsVertically) {
+        gutter = Math.min(gutter, gap);
       }
     }
   }
+  if (gutter === Infinity) gutter = 0;
+
+  // Smallest distance between distinct left edges is one column plus gutter
+  const steps = lefts
+    .slice(1)
+    .map((x, i) => x - lefts[i])
+    .filter((step) => step > gutter);
+  if (steps.length === 0) {
+    return {
+      source: "layers",
+      columns: 1,
+      columnWidth: contentWidth,
+      gutter: 0,
+      marginLeft,
+      marginRight,
+      confidence: "low",
+    };
+  }
+
+  const pitch = Math.min(...steps);
+  const columns = Math.max(1, Math.round((contentWidth + gutter) / pitch));
+  const columnWidth = (contentWidth - gutter * (columns - 1)) / columns;
+  // Every left edge should land on a column start
+  const aligned = lefts.every((x) => {
+    const offset = (x - contentLeft) / (columnWidth + gutter);
+    return Math.abs(offset - Math.round(offset)) * pitch <= 2;
+  });
 
   return {
-    layerName: layer.name || "Unnamed",
-    type: soType,
-    transform:
-      transform && transform.length >= 6
-        ? {
-            xx: transform[0],
-            xy: transform[1],
-            yx: transform[2],
-            yy: transform[3],
-            tx: transform[4],
-            ty: transform[5],
-          }
-        : undefined,
-    width: placed.width,
-    height: placed.height,
-    linkedFileId: placed.id,
-    linkedFileName: linkedFile?.name,
-    linkedFileType: linkedFile?.type,
-    hasEmbeddedData,
-    externalFilePath,
+    source: "layers",
+    columns,
+    columnWidth: roundCss(columnWidth),
+    gutter: roundCss(gutter),
+    marginLeft,
+    marginRight,
+    confidence: aligned && lefts.length > 2 ? "medium" : "low",
   };
 }
 
-// Create MCP Server
-const server = new Server(
-  {
-    name: "psd-parser",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
+// CSS grid container matching a column grid
+function columnGridToCss(grid: ColumnGrid, selector: string): string {
+  const contentWidth =
+    grid.columnWidth * grid.columns + grid.gutter * (grid.columns - 1);
+  const properties: [string, string][] = [
+    ["display", "grid"],
+    ["grid-template-columns", `repeat(${grid.columns}, minmax(0, 1fr))`],
+  ];
+  if (grid.gutter > 0) {
+    properties.push(["column-gap", `${roundCss(grid.gutter)}px`]);
+  }
+  properties.push(
+    ["max-width", `${roundCss(contentWidth)}px`],
+    ["margin", "0 auto"],
+  );
+  if (grid.marginLeft > 0 || grid.marginRight > 0) {
+    properties.push([
+      "padding",
+      `0 ${roundCss(grid.marginRight)}px 0 ${roundCss(grid.marginLeft)}px`,
+    ]);
+    properties.push(["box-sizing", "content-box"]);
+  }
+  return formatCssRule(selector, properties, [
+    `${grid.columns} columns of ${grid.columnWidth}px, inferred from ${grid.source} (${grid.confidence} confidence)`,
+  ]);
+}
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+// Child of a group placed in the layout analysis
+interface LayoutItem {
+  layer: LayerInfo;
+  rect: PixelRect;
+}
+
+// Flex layout inferred from the geometry of a group's children
+interface StackLayout {
+  direction: "row" | "column" | "absolute" | "none";
+  wrap: boolean;
+  gap: number;
+  rowGap?: number;
+  padding: { top: number; right: number; bottom: number; left: number };
+  justifyContent: "start" | "center" | "end" | "space-between";
+  alignItems: "start" | "center" | "end" | "stretch";
+  confidence: number;
+  outliers: { name: string; id?: number; reason: string }[];
+}
+
+// Pixel tolerance for edges and gaps that designers placed by hand
+const LAYOUT_TOLERANCE = 2;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+function rectRight(rect: PixelRect): number {
+  return rect.left + rect.width;
+}
+
+function rectBottom(rect: PixelRect): number {
+  return rect.top + rect.height;
+}
+
+function containsRect(outer: PixelRect, inner: PixelRect): boolean {
+  return (
+    inner.left >= outer.left - LAYOUT_TOLERANCE &&
+    inner.top >= outer.top - LAYOUT_TOLERANCE &&
+    rectRight(inner) <= rectRight(outer) + LAYOUT_TOLERANCE &&
+    rectBottom(inner) <= rectBottom(outer) + LAYOUT_TOLERANCE
+  );
+}
+
+function unionRects(rects: PixelRect[]): PixelRect {
+  const left = Math.min(...rects.map((r) => r.left));
+  const top = Math.min(...rects.map((r) => r.top));
+  const right = Math.max(...rects.map(rectRight));
+  const bottom = Math.max(...rects.map(rectBottom));
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Bottom-most filled layer that contains every other child acts as the container
+function findLayoutBackground(items: LayoutItem[]): LayoutItem | null {
+  const backgroundTypes = new Set<LayerInfo["type"]>([
+    "shape",
+    "solidFill",
+    "gradientFill",
+    "image",
+    "smartObject",
+  ]);
+  for (const item of items) {
+    if (!backgroundTypes.has(item.layer.type)) continue;
+    const others = items.filter((other) => other !== item);
+    if (
+      others.length > 0 &&
+      others.every((other) => containsRect(item.rect, other.rect))
+    ) {
+      return item;
+    }
+  }
+  return null;
+}
+
+// Sort items along an axis and measure how many consecutive pairs do not overlap
+function stackAlongAxis(
+  items: LayoutItem[],
+  horizontal: boolean,
+): { sorted: LayoutItem[]; gaps: number[]; score: number } {
+  const start = (r: PixelRect) => (horizontal ? r.left : r.top);
+  const end = (r: PixelRect) => (horizontal ? rectRight(r) : rectBottom(r));
+  const sorted = [...items].sort((a, b) => start(a.rect) - start(b.rect));
+  const gaps: number[] = [];
+  let separated = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = start(sorted[i].rect) - end(sorted[i - 1].rect);
+    gaps.push(gap);
+    if (gap >= -LAYOUT_TOLERANCE) separated++;
+  }
   return {
-    tools: [
-      {
-        name: "extract_colors",
-        description:
-          "Extract all colors used in the PSD file including text colors, fills, strokes, layer effects (shadows, glows, overlays), and gradients",
-        inputSchema: {
-          type: "object" as const,
-          properties: {
-            path: {
-              type: "string",
-              description: "Absolute path to the PSD file",
-            },
-            format: {
-              type: "string",
-              enum: ["summary", "detailed", "css"],
-              description:
-                "Output format: 'summary' for unique colors only, 'detailed' for all colors with sources, 'css' for CSS custom properties (default: summary)",
-            },
-          },
-          required: ["path"],
-        },
-      },
-      {
-        name: "export_layer_image",
-        description:
-          "Export a single image layer by name. Use layerIndex when multiple layers have the same name.",
-        inputSchema: {
-          type: "object" as const,
-          properties: {
-            path: {
-              type: "string",
-              description: "Absolute path to the PSD file",
-            },
-            layerName: {
-              type: "string",
-              description:
-                "Name of the layer to export (partial match, case-insensitive)",
-            },
-            layerIndex: {
-              type: "number",
-              description:
-                "When multiple layers match the name, specify which one (0-based index). Use list_layers first to see the order.",
-            },
-            groupName: {
-              type: "string",
-              description:
-                "Optional: Search only within this group (useful for narrowing down same-named layers)",
-            },
-            outputPath: {
-              type: "string",
-              description:
-                "Full output path including filename (e.g., /path/to/output/hero.png)",
-            },
-            scale: {
-              type: "number",
-              description: "Scale factor (default: 2 for @2x)",
-            },
-            format: {
-              type: "string",
-              enum: ["png", "jpg"],
-              description: "Image format (default: png)",
-            },
-            quality: {
-              type: "number",
-              description: "JPG quality 1-100 (default: 90)",
-            },
-          },
-          required: ["path", "layerName", "outputPath"],
-        },
+    sorted,
+    gaps,
+    score: sorted.length > 1 ? separated / (sorted.length - 1) : 0,
+  };
+}
+
+// Group items into visual rows by vertical overlap
+function groupIntoRows(items: LayoutItem[]): LayoutItem[][] {
+  const rows: LayoutItem[][] = [];
+  const sorted = [...items].sort((a, b) => a.rect.top - b.rect.top);
+  for (const item of sorted) {
+    const row = rows.find((r) =>
+      r.some(
+        (other) =>
+          item.rect.top < rectBottom(other.rect) - LAYOUT_TOLERANCE &&
+          other.rect.top < rectBottom(item.rect) - LAYOUT_TOLERANCE,
+      ),
+    );
+    if (row) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+  return rows;
+}
+
+// Infer flex direction, gap, padding and alignment for a group's children
+function inferStackLayout(group: LayerInfo): {
+  container: {
+    source: "background" | "artboard" | "children";
+    layer?: string;
+    bounds: PixelRect;
+  };
+  items: LayoutItem[];
+  layout: StackLayout;
+} {
+  const visibleItems: LayoutItem[] = [];
+  for (const child of group.children || []) {
+    if (!child.visible || child.type === "adjustment") continue;
+    const rect = layerContentBounds(child);
+    if (rect) visibleItems.push({ layer: child, rect });
+  }
+  if (visibleItems.length === 0) {
+    throw new Error(`"${group.name}" has no visible children with bounds`);
+  }
+
+  // Container: artboard frame, background shape, or the children themselves
+  const background = group.artboard ? null : findLayoutBackground(visibleItems);
+  const items = visibleItems.filter((item) => item !== background);
+  let containerRect: PixelRect;
+  let source: "background" | "artboard" | "children";
+  if (group.artboard) {
+    containerRect = layerContentBounds(group)!;
+    source = "artboard";
+  } else if (background) {
+    containerRect = background.rect;
+    source = "background";
+  } else {
+    containerRect = unionRects(items.map((item) => item.rect));
+    source = "children";
+  }
+
+  const content = unionRects(items.map((item) => item.rect));
+  const padding = {
+    top: content.top - containerRect.top,
+    right: rectRight(containerRect) - rectRight(content),
+    bottom: rectBottom(containerRect) - rectBottom(content),
+    left: content.left - containerRect.left,
+  };
+  const hasContainer = source !== "children";
+  const outliers: StackLayout["outliers"] = [];
+  const flag = (item: LayoutItem, reason: string) =>
+    outliers.push({ name: item.layer.name, id: item.layer.id, reason });
+
+  const container = {
+    source,
+    layer: background?.layer.name,
+    bounds: containerRect,
+  };
+
+  if (items.length < 2) {
+    return {
+      container,
+      items,
+      layout: {
+        direction: "none",
+        wrap: false,
+        gap: 0,
+        padding,
+        justifyContent:
+          Math.abs(padding.left - padding.right) <= LAYOUT_TOLERANCE &&
+          hasContainer
+            ? "center"
+            : "start",
+        alignItems:
+          Math.abs(padding.top - padding.bottom) <= LAYOUT_TOLERANCE &&
+          hasContainer
+            ? "center"
+            : "start",
+        confidence: hasContainer ? 0.5 : 0.3,
+        outliers,
       },
-      {
-        name: "export_all_vectors_as_svg",
-        description:
-          "Export all vector/shape layers as SVG files to a specified directory",
-        inputSchema: {
-          type: "object" as const,
-          properties: {
-            path: {
-              type: "string",
-              description: "Absolute path to the PSD file",
-            },
-            outputDir: {
-              type: "string",
-              description: "Directory to save SVG files",
-            },
-            groupName: {
-              type: "string",
-              description: "Optional: Only export vectors from this group",
-            },
-          },
-          required: ["path", "outputDir"],
-        },
+    };
+  }
+
+  const row = stackAlongAxis(items, true);
+  const column = stackAlongAxis(items, false);
+
+  // Items on one line along the cross axis share a band
+  const sharesBand = (horizontal: boolean) =>
+    horizontal
+      ? Math.max(...items.map((i) => i.rect.top)) <
+        Math.min(...items.map((i) => rectBottom(i.rect)))
+      : Math.max(...items.map((i) => i.rect.left)) <
+        Math.min(...items.map((i) => rectRight(i.rect)));
+
+  let horizontal: boolean;
+  let wrap = false;
+  let rowGap: number | undefined;
+  let gaps: number[];
+  let sorted: LayoutItem[];
+  let directionScore: number;
+
+  const rows = groupIntoRows(items);
+  if (
+    row.score === 1 &&
+    (column.score < 1 || sharesBand(true) || !sharesBand(false))
+  ) {
+    horizontal = true;
+    ({ sorted, gaps, score: directionScore } = row);
+  } else if (column.score === 1) {
+    horizontal = false;
+    ({ sorted, gaps, score: directionScore } = column);
+  } else if (
+    rows.length > 1 &&
+    rows.some((r) => r.length > 1) &&
+    rows.every((r) => r.length === 1 || stackAlongAxis(r, true).score === 1)
+  ) {
+    // Several rows of side-by-side items: a wrapping row
+    horizontal = true;
+    wrap = true;
+    directionScore = 1;
+    sorted = rows.flatMap((r) => stackAlongAxis(r, true).sorted);
+    gaps = rows.flatMap((r) => stackAlongAxis(r, true).gaps);
+    const bands = rows.map((r) => unionRects(r.map((item) => item.rect)));
+    rowGap = roundCss(
+      median(bands.slice(1).map((band, i) => band.top - rectBottom(bands[i]))),
+    );
+  } else if (Math.max(row.score, column.score) >= 0.5) {
+    horizontal = row.score >= column.score;
+    ({ sorted, gaps, score: directionScore } = horizontal ? row : column);
+    gaps.forEach((gap, i) => {
+      if (gap < -LAYOUT_TOLERANCE)
+        flag(sorted[i + 1], "overlaps previous item");
+    });
+  } else {
+    return {
+      container,
+      items,
+      layout: {
+        direction: "absolute",
+        wrap: false,
+        gap: 0,
+        padding,
+        justifyContent: "start",
+        alignItems: "start",
+        confidence: roundCss(1 - Math.max(row.score, column.score)),
+        outliers,
       },
-      {
-        name: "export_images",
-        description:
-          "Export image layers as PNG or JPG files (@2x scale for Retina). Can export from a specific group or all images.",
-        inputSchema: {
-          type: "object" as const,
-          properties: {
-            path: {
-              type: "string",
-              description: "Absolute path to the PSD file",
-            },
-            outputDir: {
-              type: "string",
-              description: "Directory to save image files",
-            },
-            groupName: {
-              type: "string",
-              description: "Optional: Only export images from this group",
-            },
-            scale: {
-              type: "number",
-              description: "Scale factor (default: 2 for @2x)",
-            },
-            format: {
-              type: "string",
-              enum: ["png", "jpg"],
+    };
+  }
+
+  // Gap: the typical spacing; deviations mark items that break the rhythm
+  const validGaps = gaps.filter((gap) => gap >= -LAYOUT_TOLERANCE);
+  const gap = roundCss(Math.max(0, median(validGaps)));
+  if (!wrap) {
+    gaps.forEach((value, i) => {
+      const deviation = Math.abs(value - gap);
+      if (
+        value >= -LAYOUT_TOLERANCE &&
+        deviation > Math.max(LAYOUT_TOLERANCE, gap * 0.1)
+      ) {
+        flag(sorted[i + 1], `gap ${roundCss(value)}px instead of ${gap}px`);
+      }
+    });
+  }
+
+  // Cross-axis alignment: the edge (or center) the items agree on
+  const crossStart = (r: PixelRect) => (horizontal ? r.top : r.left);
+  const crossSize = (r: PixelRect) => (horizontal ? r.height : r.width);
+  const alignments = {
+    start: (r: PixelRect) => crossStart(r),
+    center: (r: PixelRect) => crossStart(r) + crossSize(r) / 2,
+    end: (r: PixelRect) => crossStart(r) + crossSize(r),
+  };
+  const alignItemsOf = wrap ? rows[0] : items;
+  let alignItems: StackLayout["alignItems"] = "start";
+  let bestSpread = Infinity;
+  for (const [name, edge] of Object.entries(alignments)) {
+    const values = alignItemsOf.map((item) => edge(item.rect));
+    const spread = Math.max(...values) - Math.min(...values);
+    if (spread < bestSpread - 0.5) {
+      bestSpread = spread;
+      alignItems = name as StackLayout["alignItems"];
+    }
+  }
+  const sameSize =
+    Math.max(...items.map((i) => crossSize(i.rect))) -
+      Math.min(...items.map((i) => crossSize(i.rect))) <=
+    LAYOUT_TOLERANCE;
+  if (sameSize && hasContainer && !wrap) {
+    alignItems = "stretch";
+  } else if (!wrap) {
+    const edge = alignments[alignItems === "stretch" ? "start" : alignItems];
+    const target = median(items.map((item) => edge(item.rect)));
+    for (const item of items) {
+      if (Math.abs(edge(item.rect) - target) > LAYOUT_TOLERANCE) {
+        flag(item, `not ${alignItems}-aligned with its siblings`);
+      }
+    }
+  }
+
+  // Main-axis distribution from the padding left over inside the container
+  const mainStart = horizontal ? padding.left : padding.top;
+  const mainEnd = horizontal ? padding.right : padding.bottom;
+  let justifyContent: StackLayout["justifyContent"] = "start";
+  if (hasContainer && !wrap) {
+    if (Math.abs(mainStart - mainEnd) <= LAYOUT_TOLERANCE) {
+      justifyContent =
+        gap > 2 * Math.max(mainStart, LAYOUT_TOLERANCE)
+          ? "space-between"
+          : "center";
+    } else if (mainStart > mainEnd) {
+      justifyContent = "end";
+    }
+  }
+
+  const outlierRatio = outliers.length / items.length;
+  const confidence = roundCss(
+    directionScore * (1 - outlierRatio) * (hasContainer ? 1 : 0.8),
+  );
+
+  return {
+    container,
+    items: sorted,
+    layout: {
+      direction: horizontal ? "row" : "column",
+      wrap,
+      gap,
+      ...(rowGap !== undefined ? { rowGap } : {}),
+      padding,
+      justifyContent,
+      alignItems,
+      confidence,
+      outliers,
+    },
+  };
+}
+
+// CSS for an inferred stack layout
+function stackLayoutToCss(layout: StackLayout): LayerCss {
+  if (layout.direction === "absolute") {
+    return {
+      properties: [["position", "relative"]],
+      notes: ["Children overlap: position them absolutely"],
+    };
+  }
+
+  const flexValue = {
+    start: "flex-start",
+    center: "center",
+    end: "flex-end",
+    "space-between": "space-between",
+    stretch: "stretch",
+  };
+  const { top, right, bottom, left } = layout.padding;
+  const properties: [string, string][] = [["display", "flex"]];
+  if (layout.direction === "column") {
+    properties.push(["flex-direction", "column"]);
+  }
+  if (layout.wrap) {
+    properties.push(["flex-wrap", "wrap"]);
+  }
+  if (layout.rowGap !== undefined && layout.rowGap !== layout.gap) {
+    properties.push(["gap", `${layout.rowGap}px ${layout.gap}px`]);
+  } else if (layout.gap > 0) {
+    properties.push(["gap", `${layout.gap}px`]);
+  }
+  if (top || right || bottom || left) {
+    properties.push(["padding", `${top}px ${right}px ${bottom}px ${left}px`]);
+  }
+  if (layout.justifyContent !== "start") {
+    properties.push(["justify-content", flexValue[layout.justifyContent]]);
+  }
+  properties.push(["align-items", flexValue[layout.alignItems]]);
+
+  return { properties, notes: [] };
+}
+
+// Distance between two layers or between a background and its content
+interface SpacingMeasurement {
+  value: number;
+  kind: "gap" | "padding";
+  layers: string[];
+}
+
+// Distances above this are section spacing rather than component spacing
+const MAX_SPACING = 160;
+
+// Gaps between neighbouring siblings and paddings inside background shapes
+function measureSpacing(layers: LayerInfo[]): SpacingMeasurement[] {
+  const measurements: SpacingMeasurement[] = [];
+  const add = (value: number, kind: "gap" | "padding", names: string[]) => {
+    const rounded = Math.round(value);
+    if (rounded > 0 && rounded <= MAX_SPACING) {
+      measurements.push({ value: rounded, kind, layers: names });
+    }
+  };
+
+  function measureGroup(children: LayerInfo[]) {
+    const items: LayoutItem[] = [];
+    for (const child of children) {
+      if (!child.visible || child.type === "adjustment") continue;
+      const rect = layerContentBounds(child);
+      if (rect && rect.width > 0 && rect.height > 0) {
+        items.push({ layer: child, rect });
+      }
+    }
+
+    const background = findLayoutBackground(items);
+    const content = items.filter((item) => item !== background);
+    if (background && content.length > 0) {
+      const inner = unionRects(content.map((item) => item.rect));
+      const outer = background.rect;
+      const name = [background.layer.path ?? background.layer.name];
+      const top = inner.top - outer.top;
+      const left = inner.left - outer.left;
+      const bottom = rectBottom(outer) - rectBottom(inner);
+      const right = rectRight(outer) - rectRight(inner);
+      add(top, "padding", name);
+      add(left, "padding", name);
+      // Trailing padding usually follows from the content size
+      if (Math.abs(bottom - top) <= LAYOUT_TOLERANCE) {
+        add(bottom, "padding", name);
+      }
+      if (Math.abs(right - left) <= LAYOUT_TOLERANCE) {
+        add(right, "padding", name);
+      }
+    }
+
+    // Nearest neighbour to the right and below that shares a row or column
+    for (const item of content) {
+      let right: { item: LayoutItem; gap: number } | null = null;
+      let below: { item: LayoutItem; gap: number } | null = null;
+      for (const other of content) {
+        if (other === item) continue;
+        const sharesRow =
+          other.rect.top < rectBottom(item.rect) &&
+          rectBottom(other.rect) > item.rect.top;
+        const sharesColumn =
+          other.rect.left < rectRight(item.rect) &&
+          rectRight(other.rect) > item.rect.left;
+        const gapRight = other.rect.left - rectRight(item.rect);
+        const gapBelow = other.rect.top - rectBottom(item.rect);
+        if (sharesRow && gapRight > 0 && (!right || gapRight < right.gap)) {
+          right = { item: other, gap: gapRight };
+        }
+        if (sharesColumn && gapBelow > 0 && (!below || gapBelow < below.gap)) {
+          below = { item: other, gap: gapBelow };
+        }
+      }
+      for (const neighbour of [right, below]) {
+        if (neighbour) {
+          add(neighbour.gap, "gap", [
+            item.layer.path ?? item.layer.name,
+            neighbour.item.layer.path ?? neighbour.item.layer.name,
+          ]);
+        }
+      }
+    }
+  }
+
+  function traverse(items: LayerInfo[]) {
+    for (const layer of items) {
+      if (!layer.visible || !layer.children) continue;
+      measureGroup(layer.children);
+      traverse(layer.children);
+    }
+  }
+
+  measureGroup(layers);
+  traverse(layers);
+  return measurements;
+}
+
+// Spacing scale on a base unit, with the measurements that do not fit
+interface SpacingScale {
+  baseUnit: number;
+  fit: number;
+  histogram: { value: number; count: number }[];
+  scale: { name: string; value: number; count: number }[];
+  outliers: { value: number; count: number; layers: string[] }[];
+}
+
+function buildSpacingScale(measurements: SpacingMeasurement[]): SpacingScale {
+  // Measurements are whole pixels, so only exact multiples are on the grid
+  const fits = (value: number, unit: number) => value % unit === 0;
+  const fitShare = (unit: number) =>
+    measurements.length === 0
+      ? 0
+      : measurements.filter((m) => fits(m.value, unit)).length /
+        measurements.length;
+
+  // Prefer the 8px grid when it explains most values, then 4px
+  const baseUnit = fitShare(8) >= 0.75 ? 8 : 4;
+  const fit = roundCss(fitShare(baseUnit));
+
+  const histogram = new Map<number, number>();
+  for (const m of measurements) {
+    histogram.set(m.value, (histogram.get(m.value) ?? 0) + 1);
+  }
+
+  const onGrid = new Map<number, number>();
+  const outliers = new Map<number, { count: number; layers: string[] }>();
+  for (const m of measurements) {
+    if (fits(m.value, baseUnit)) {
+      onGrid.set(m.value, (onGrid.get(m.value) ?? 0) + 1);
+    } else {
+      const outlier = outliers.get(m.value) ?? { count: 0, layers: [] };
+      outlier.count++;
+      for (const layer of m.layers) {
+        if (!outlier.layers.includes(layer)) outlier.layers.push(layer);
+      }
+      outliers.set(m.value, outlier);
+    }
+  }
+
+  return {
+    baseUnit,
+    fit,
+    histogram: [...histogram.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => a.value - b.value),
+    scale: [...onGrid.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([value, count]) => ({
+        name: `${value / baseUnit}`,
+        value,
+        count,
+      })),
+    outliers: [...outliers.entries()]
+      .map(([value, outlier]) => ({ value, ...outlier }))
+      .sort((a, b) => b.count - a.count || a.value - b.value),
+  };
+}
+
+// Element of generated markup, independent of the target framework
+interface MarkupNode {
+  tag: string;
+  className: string;
+  layerName: string;
+  css: LayerCss;
+  attributes: [string, string][];
+  text?: string;
+  svg?: string;
+  children: MarkupNode[];
+}
+
+// Shared state while turning a layer tree into markup
+interface MarkupContext {
+  globalAngle: number;
+  profile: ColorProfile | null;
+  docWidth: number;
+  docHeight: number;
+  scale: number;
+  imageDir: string;
+  headingSizes: number[];
+  layerMap: Map<LayerInfo, Layer>;
+  usedClasses: Map<string, number>;
+  usedFilenames: Map<string, number>;
+  images: { layer: Layer; filename: string }[];
+}
+
+// Later properties replace earlier ones with the same name
+function mergeCssProperties(
+  ...lists: [string, string][][]
+): [string, string][] {
+  const merged = new Map<string, string>();
+  for (const list of lists) {
+    for (const [property, value] of list) {
+      merged.delete(property);
+      merged.set(property, value);
+    }
+  }
+  return [...merged];
+}
+
+function withoutCssProperties(
+  properties: [string, string][],
+  names: string[],
+): [string, string][] {
+  return properties.filter(([property]) => !names.includes(property));
+}
+
+// Font family from a font name (e.g. "Inter-SemiBold" -> "Inter")
+function fontFamilyFromName(fontName: string): string {
+  return parseFontName(fontName).family;
+}
+
+// Typography CSS for a text run
+function textRunCss(run: TextRunInfo): [string, string][] {
+  const properties: [string, string][] = [];
+  if (run.font) {
+    properties.push([
+      "font-family",
+      `'${fontFamilyFromName(run.font)}', sans-serif`,
+    ]);
+  }
+  if (run.fontSize) {
+    properties.push(["font-size", `${roundCss(run.fontSize)}px`]);
+  }
+  if (run.fontWeight && run.fontWeight !== 400) {
+    properties.push(["font-weight", `${run.fontWeight}`]);
+  }
+  if (run.italic) properties.push(["font-style", "italic"]);
+  if (run.color) properties.push(["color", run.color]);
+  if (run.lineHeight) {
+    properties.push(["line-height", `${roundCss(run.lineHeight)}px`]);
+  }
+  if (run.letterSpacing) {
+    // Tracking is in 1/1000 em
+    properties.push([
+      "letter-spacing",
+      `${roundCss(run.letterSpacing / 1000, 3)}em`,
+    ]);
+  }
+  const decorations = [
+    run.underline ? "underline" : "",
+    run.strikethrough ? "line-through" : "",
+  ].filter(Boolean);
+  if (decorations.length > 0) {
+    properties.push(["text-decoration", decorations.join(" ")]);
+  }
+  if (run.caps === "all-caps") properties.push(["text-transform", "uppercase"]);
+  if (run.caps === "small-caps")
+    properties.push(["font-variant", "small-caps"]);
+  if (run.baseline === "superscript") {
+    properties.push(["vertical-align", "super"]);
+  }
+  if (run.baseline === "subscript") properties.push(["vertical-align", "sub"]);
+  return properties;
+}
+
+// Class name that is unique within one generated snippet
+function uniqueClassName(
+  name: string,
+  usedClasses: Map<string, number>,
+): string {
+  const base = cssClassName(name);
+  const count = usedClasses.get(base) || 0;
+  usedClasses.set(base, count + 1);
+  return count === 0 ? base : `${base}-${count + 1}`;
+}
+
+// Font sizes that read as headings: clearly larger than the most common size
+function headingFontSizes(info: LayerInfo): number[] {
+  const counts = new Map<number, number>();
+  function traverse(layer: LayerInfo) {
+    if (!layer.visible) return;
+    if (layer.text?.fontSize) {
+      const size = roundCss(layer.text.fontSize);
+      counts.set(size, (counts.get(size) || 0) + layer.text.content.length);
+    }
+    layer.children?.forEach(traverse);
+  }
+  traverse(info);
+  if (counts.size === 0) return [];
+
+  const bodySize = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  return [...counts.keys()]
+    .filter((size) => size >= bodySize * 1.25)
+    .sort((a, b) => b - a)
+    .slice(0, 3);
+}
+
+// Index parsed layers back to their ag-psd layers
+function pairLayerInfo(
+  layer: Layer,
+  info: LayerInfo,
+  layerMap: Map<LayerInfo, Layer>,
+): void {
+  layerMap.set(info, layer);
+  info.children?.forEach((child, i) => {
+    const childLayer = layer.children?.[i];
+    if (childLayer) pairLayerInfo(childLayer, child, layerMap);
+  });
+}
+
+// Vector shape as inline SVG cropped to the layer
+function inlineVectorSvg(
+  layer: Layer,
+  docWidth: number,
+  docHeight: number,
+  rect: PixelRect,
+  className: string,
+  profile: ColorProfile | null,
+): string {
+  return vectorLayerToSvg(layer, docWidth, docHeight, profile)
+    .replace(/^<\?xml[^>]*>\n/, "")
+    .replace(
+      /<svg [^>]*>/,
+      `<svg class="${className}" xmlns="http://www.w3.org/2000/svg" width="${rect.width}" height="${rect.height}" viewBox="${rect.left} ${rect.top} ${rect.width} ${rect.height}">`,
+    );
+}
+
+// Text layer as a heading or paragraph with spans for mixed styles
+function textToMarkup(
+  layer: Layer,
+  info: LayerInfo,
+  ctx: MarkupContext,
+): MarkupNode {
+  const text = info.text!;
+  const level = text.fontSize
+    ? ctx.headingSizes.indexOf(roundCss(text.fontSize))
+    : -1;
+  const className = uniqueClassName(info.name, ctx.usedClasses);
+  const baseRun = textStyleToRunInfo(
+    layer.text?.style ?? {},
+    0,
+    text.content.length,
+    text.content,
+    ctx.profile,
+    layer.text ? textTransformScale(layer.text) : 1,
+  );
+  const baseTypography = textRunCss(baseRun);
+  const { properties, notes } = layerToCss(layer, ctx.profile, ctx.globalAngle);
+  const typography: [string, string][] = [];
+
+  const alignment = text.paragraphs?.[0]?.alignment;
+  if (alignment && alignment !== "left") {
+    typography.push(["text-align", alignment]);
+  }
+  const box = layer.text?.boxBounds;
+  if (layer.text?.shapeType === "box" && box && box.length === 4) {
+    typography.push(["width", `${roundCss(box[2] - box[0])}px`]);
+  } else {
+    // Point text only breaks at explicit line breaks
+    typography.push(["white-space", "nowrap"]);
+  }
+
+  const node: MarkupNode = {
+    tag: level >= 0 ? `h${level + 1}` : "p",
+    className,
+    layerName: info.name,
+    css: {
+      properties: mergeCssProperties(baseTypography, properties, typography),
+      notes,
+    },
+    attributes: [],
+    children: [],
+  };
+
+  // Runs that differ from the base style become spans
+  const basePairs = new Set(baseTypography.map(([p, v]) => `${p}:${v}`));
+  const spans = (text.runs ?? []).map((run) => ({
+    run,
+    properties: textRunCss(run).filter(([p, v]) => !basePairs.has(`${p}:${v}`)),
+  }));
+  if (spans.some((span) => span.properties.length > 0)) {
+    for (const { run, properties: spanProperties } of spans) {
+      node.children.push({
+        tag: "span",
+        className:
+          spanProperties.length > 0
+            ? uniqueClassName(`${info.name} span`, ctx.usedClasses)
+            : "",
+        layerName: info.name,
+        css: { properties: spanProperties, notes: [] },
+        attributes: [],
+        text: run.text,
+        children: [],
+      });
+    }
+  } else {
+    node.text = text.content;
+  }
+
+  return node;
+}
+
+// Leaf layer (text, image, shape, fill) as a markup node
+function leafToMarkup(
+  layer: Layer,
+  info: LayerInfo,
+  rect: PixelRect,
+  ctx: MarkupContext,
+): MarkupNode | null {
+  if (info.type === "text" && info.text) {
+    return textToMarkup(layer, info, ctx);
+  }
+
+  const className = uniqueClassName(info.name, ctx.usedClasses);
+  const css = layerToCss(layer, ctx.profile, ctx.globalAngle);
+
+  if (info.type === "image" || info.type === "smartObject") {
+    const filename =
+      uniqueFilename(info.name || "unnamed", ctx.usedFilenames) +
+      (ctx.scale !== 1 ? `@${ctx.scale}x` : "") +
+      ".png";
+    ctx.images.push({ layer, filename });
+    return {
+      tag: "img",
+      className,
+      layerName: info.name,
+      css: {
+        properties: css.properties,
+        notes: css.notes.filter((note) => !note.startsWith("Raster layer")),
+      },
+      attributes: [
+        ["src", `${ctx.imageDir}/${filename}`],
+        ["alt", info.name],
+        ["width", `${rect.width}`],
+        ["height", `${rect.height}`],
+      ],
+      children: [],
+    };
+  }
+
+  // Rectangles, rounded rectangles and ellipses are plain boxes; other outlines stay vectors
+  const originType =
+    layer.vectorOrigination?.keyDescriptorList?.[0]?.keyOriginType;
+  const isBox =
+    !hasVectorPaths(layer) ||
+    originType === 1 ||
+    originType === 2 ||
+    originType === 5;
+  if (info.type === "shape" && !isBox && layer.vectorMask) {
+    return {
+      tag: "svg",
+      className,
+      layerName: info.name,
+      css: { properties: [], notes: css.notes },
+      attributes: [
+        ["alt", info.name],
+        ["width", `${rect.width}`],
+        ["height", `${rect.height}`],
+      ],
+      svg: inlineVectorSvg(
+        layer,
+        ctx.docWidth,
+        ctx.docHeight,
+        rect,
+        className,
+        ctx.profile,
+      ),
+      children: [],
+    };
+  }
+
+  if (
+    info.type === "shape" ||
+    info.type === "solidFill" ||
+    info.type === "gradientFill"
+  ) {
+    return {
+      tag: "div",
+      className,
+      layerName: info.name,
+      css: {
+        properties: mergeCssProperties(
+          [
+            ["width", `${rect.width}px`],
+            ["height", `${rect.height}px`],
+          ],
+          css.properties,
+        ),
+        notes: css.notes,
+      },
+      attributes: [],
+      children: [],
+    };
+  }
+
+  return null;
+}
+
+// Layer or group as a markup tree, using flexbox where a layout is detectable
+function layerToMarkup(info: LayerInfo, ctx: MarkupContext): MarkupNode | null {
+  const layer = ctx.layerMap.get(info);
+  if (!layer || !info.visible) return null;
+  const rect = layerContentBounds(info);
+  if (!rect) return null;
+
+  if (!info.children || info.children.length === 0) {
+    return leafToMarkup(layer, info, rect, ctx);
+  }
+
+  const { container, items, layout } = inferStackLayout(info);
+  const useFlex = layout.direction !== "absolute" && layout.confidence >= 0.6;
+  const className = uniqueClassName(info.name, ctx.usedClasses);
+  const backgroundLayer =
+    container.source === "background"
+      ? info.children.find(
+          (child) =>
+            child.visible &&
+            child.name === container.layer &&
+            !items.some((item) => item.layer === child),
+        )
+      : undefined;
+
+  // Container box: artboard frame or background shape, plus the group's own compositing
+  let boxProperties: [string, string][] = [];
+  const boxNotes: string[] = [];
+  if (info.artboard) {
+    boxProperties.push(["width", `${info.artboard.width}px`]);
+    boxProperties.push(["min-height", `${info.artboard.height}px`]);
+    if (info.artboard.backgroundColor) {
+      boxProperties.push(["background-color", info.artboard.backgroundColor]);
+    }
+  } else if (backgroundLayer) {
+    const backgroundCss = layerToCss(
+      ctx.layerMap.get(backgroundLayer)!,
+      ctx.profile,
+      ctx.globalAngle,
+    );
+    boxProperties = useFlex
+      ? withoutCssProperties(backgroundCss.properties, ["height"])
+      : backgroundCss.properties;
+    boxNotes.push(...backgroundCss.notes);
+  }
+  if (!useFlex && !info.artboard && !backgroundLayer) {
+    boxProperties.push(["width", `${container.bounds.width}px`]);
+    boxProperties.push(["height", `${container.bounds.height}px`]);
+  }
+  if (!useFlex && info.artboard) {
+    boxProperties = mergeCssProperties(boxProperties, [
+      ["height", `${info.artboard.height}px`],
+    ]);
+  }
+  const ownCss = layerToCss(layer, ctx.profile, ctx.globalAngle);
+  const layoutProperties: [string, string][] = useFlex
+    ? stackLayoutToCss(layout).properties
+    : [["position", "relative"]];
+
+  const node: MarkupNode = {
+    tag: info.artboard ? "section" : "div",
+    className,
+    layerName: info.name,
+    css: {
+      properties: mergeCssProperties(
+        boxProperties,
+        withoutCssProperties(ownCss.properties, ["width", "height"]),
+        layoutProperties,
+      ),
+      notes: [...boxNotes, ...ownCss.notes],
+    },
+    attributes: [],
+    children: [],
+  };
+
+  // Flex children follow visual order; absolute children keep stacking order
+  const children = useFlex
+    ? items.map((item) => item.layer)
+    : info.children.filter((child) => child !== backgroundLayer);
+  for (const child of children) {
+    const childNode = layerToMarkup(child, ctx);
+    if (!childNode) continue;
+    if (!useFlex) {
+      const childRect = layerContentBounds(child)!;
+      childNode.css.properties = mergeCssProperties(
+        [
+          ["position", "absolute"],
+          ["left", `${childRect.left - container.bounds.left}px`],
+          ["top", `${childRect.top - container.bounds.top}px`],
+        ],
+        childNode.css.properties,
+      );
+    }
+    node.children.push(childNode);
+  }
+
+  return node;
+}
+
+// Markup tree for a layer or group of a loaded document
+function buildLayerMarkup(
+  psd: Psd,
+  target: Layer,
+  scale: number,
+  imageDir: string,
+): { info: LayerInfo; markup: MarkupNode; ctx: MarkupContext } {
+  const profile = documentProfile(psd);
+  const info = extractLayerInfo(target, profile);
+  const ctx: MarkupContext = {
+    globalAngle: psd.imageResources?.globalAngle ?? 120,
+    profile,
+    docWidth: psd.width,
+    docHeight: psd.height,
+    scale,
+    imageDir,
+    headingSizes: headingFontSizes(info),
+    layerMap: new Map(),
+    usedClasses: new Map(),
+    usedFilenames: new Map(),
+    images: [],
+  };
+  pairLayerInfo(target, info, ctx.layerMap);
+
+  const markup = layerToMarkup(info, ctx);
+  if (!markup) {
+    throw new Error(`"${info.name}" has no visible content to convert`);
+  }
+  return { info, markup, ctx };
+}
+
+// Export the images referenced by a markup tree, returning how many were written
+function writeMarkupImages(ctx: MarkupContext, dir: string): number {
+  let written = 0;
+  for (const { layer, filename } of ctx.images) {
+    const imageBuffer = layerToImageBuffer(
+      layer,
+      ctx.profile,
+      ctx.scale,
+      "png",
+    );
+    if (imageBuffer) {
+      fs.writeFileSync(path.join(dir, filename), imageBuffer);
+      written++;
+    }
+  }
+  return written;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Text with Photoshop line breaks as <br />
+function textToHtml(text: string): string {
+  return text
+    .split(/\r\n|\r|\n/)
+    .map(escapeHtml)
+    .join("<br />");
+}
+
+// Render a markup tree as HTML lines
+function markupToHtml(node: MarkupNode, indent: string = ""): string[] {
+  if (node.svg) {
+    return node.svg.split("\n").map((line) => indent + line);
+  }
+
+  const attributes = [
+    node.className ? ` class="${node.className}"` : "",
+    ...node.attributes.map(
+      ([name, value]) => ` ${name}="${escapeHtml(value)}"`,
+    ),
+  ].join("");
+
+  if (node.tag === "img") {
+    return [`${indent}<img${attributes} />`];
+  }
+  if (node.text !== undefined) {
+    return [
+      `${indent}<${node.tag}${attributes}>${textToHtml(node.text)}</${node.tag}>`,
+    ];
+  }
+  if (node.children.every((child) => child.tag === "span")) {
+    const inline = node.children
+      .map((child) =>
+        child.className
+          ? `<span class="${child.className}">${textToHtml(child.text ?? "")}</span>`
+          : textToHtml(child.text ?? ""),
+      )
+      .join("");
+    if (node.children.length > 0) {
+      return [`${indent}<${node.tag}${attributes}>${inline}</${node.tag}>`];
+    }
+  }
+
+  return [
+    `${indent}<${node.tag}${attributes}>`,
+    ...node.children.flatMap((child) => markupToHtml(child, indent + "  ")),
+    `${indent}</${node.tag}>`,
+  ];
+}
+
+// CSS rules for every styled node in a markup tree
+function markupToCssRules(node: MarkupNode): string[] {
+  const rules: string[] = [];
+  if (
+    node.className &&
+    (node.css.properties.length > 0 || node.css.notes.length > 0)
+  ) {
+    rules.push(
+      formatCssRule(`.${node.className}`, node.css.properties, node.css.notes),
+    );
+  }
+  for (const child of node.children) {
+    rules.push(...markupToCssRules(child));
+  }
+  return rules;
+}
+
+// Reset that makes pixel sizes from the design hold in the browser
+const MARKUP_BASE_CSS = `*, *::before, *::after {
+  box-sizing: border-box;
+}
+
+h1, h2, h3, p {
+  margin: 0;
+}`;
+
+// Self-contained HTML document for a markup tree
+function markupToHtmlDocument(node: MarkupNode, title: string): string {
+  const css = [MARKUP_BASE_CSS, ...markupToCssRules(node)].join("\n\n");
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '  <meta charset="utf-8" />',
+    '  <meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `  <title>${escapeHtml(title)}</title>`,
+    "  <style>",
+    ...css.split("\n").map((line) => (line ? `    ${line}` : "")),
+    "  </style>",
+    "</head>",
+    "<body>",
+    ...markupToHtml(node, "  "),
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+type ComponentFramework = "react-tsx" | "vue-sfc" | "svelte";
+type ComponentStyling = "css-modules" | "tailwind" | "styled-components";
+
+// Value in generated code: a string literal or an imported asset
+type ComponentValue = { literal: string } | { identifier: string };
+
+// Repeated sibling groups rendered from one template
+interface ComponentList {
+  prop: string;
+  template: MarkupNode;
+  items: MarkupNode[];
+  fields: Map<MarkupNode, string>;
+  values: [string, ComponentValue][][];
+}
+
+// Component source derived from a markup tree
+interface ComponentModel {
+  name: string;
+  framework: ComponentFramework;
+  styling: ComponentStyling;
+  props: { name: string; value: ComponentValue }[];
+  lists: Map<MarkupNode, ComponentList>;
+  skipped: Set<MarkupNode>;
+  bindings: Map<MarkupNode, string>;
+  assets: { identifier: string; filename: string; svg?: string }[];
+  styledNames: Map<MarkupNode, string>;
+}
+
+// ECMAScript reserved words (including strict mode), which cannot name props
+// or variables, and the names the component templates already use
+const RESERVED_IDENTIFIERS = new Set([
+  "arguments",
+  "await",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "eval",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "implements",
+  "import",
+  "in",
+  "instanceof",
+  "interface",
+  "let",
+  "new",
+  "null",
+  "package",
+  "private",
+  "protected",
+  "public",
+  "return",
+  "static",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+  "yield",
+  // Template names
+  "index",
+  "item",
+  "key",
+  "props",
+  "styled",
+  "styles",
+]);
+
+// camelCase identifier from a layer name (e.g. "Hero Title 2" -> "heroTitle2")
+function camelIdentifier(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  if (words.length === 0) return "value";
+  const identifier = words
+    .map((word, i) =>
+      i === 0
+        ? word.toLowerCase()
+        : word[0].toUpperCase() + word.slice(1).toLowerCase(),
+    )
+    .join("");
+  return /^[0-9]/.test(identifier) ? `value${identifier}` : identifier;
+}
+
+function pascalIdentifier(name: string): string {
+  const identifier = camelIdentifier(name);
+  return identifier[0].toUpperCase() + identifier.slice(1);
+}
+
+// Identifier that is unique within one generated component
+function uniqueIdentifier(base: string, used: Map<string, number>): string {
+  const name = RESERVED_IDENTIFIERS.has(base) ? `${base}Text` : base;
+  const count = used.get(name) || 0;
+  used.set(name, count + 1);
+  return count === 0 ? name : `${name}${count + 1}`;
+}
+
+// Structure of a node, ignoring class names and text content
+function markupSignature(node: MarkupNode): string {
+  if (node.text !== undefined || node.svg || node.tag === "img") {
+    return node.tag;
+  }
+  if (node.children.some((child) => child.tag === "span")) {
+    // Mixed-style text stays static, so it must match exactly
+    return `${node.tag}[${node.children.map((child) => child.text).join("")}]`;
+  }
+  return `${node.tag}(${node.children.map(markupSignature).join(",")})`;
+}
+
+// Text and image nodes of a subtree in document order
+function markupLeaves(node: MarkupNode): MarkupNode[] {
+  if (node.text !== undefined || node.svg || node.tag === "img") {
+    return [node];
+  }
+  return node.children.flatMap(markupLeaves);
+}
+
+function normalizeLineBreaks(text: string): string {
+  return text.replace(/\r\n|\r/g, "\n");
+}
+
+// Turn text into props, repeated siblings into lists and images into asset imports
+function buildComponentModel(
+  root: MarkupNode,
+  ctx: MarkupContext,
+  name: string,
+  framework: ComponentFramework,
+  styling: ComponentStyling,
+): ComponentModel {
+  const model: ComponentModel = {
+    name,
+    framework,
+    styling,
+    props: [],
+    lists: new Map(),
+    skipped: new Set(),
+    bindings: new Map(),
+    assets: [],
+    styledNames: new Map(),
+  };
+  const usedIdentifiers = new Map<string, number>([[name, 1]]);
+
+  function assetFor(node: MarkupNode): ComponentValue {
+    let filename: string;
+    let svg: string | undefined;
+    if (node.svg) {
+      filename = uniqueFilename(node.layerName, ctx.usedFilenames) + ".svg";
+      svg = node.svg.replace(/ class="[^"]*"/, "");
+    } else {
+      const src = node.attributes.find(([attr]) => attr === "src")?.[1] ?? "";
+      filename = src.slice(ctx.imageDir.length + 1);
+    }
+    const identifier = uniqueIdentifier(
+      `${camelIdentifier(node.layerName)}${node.svg ? "Svg" : "Image"}`,
+      usedIdentifiers,
+    );
+    model.assets.push({ identifier, filename, svg });
+    return { identifier };
+  }
+
+  // Multi-line text needs preserved line breaks once it becomes a prop
+  function preserveLineBreaks(node: MarkupNode) {
+    if (!node.text || !/[\r\n]/.test(node.text)) return;
+    const nowrap = node.css.properties.some(
+      ([p, v]) => p === "white-space" && v === "nowrap",
+    );
+    node.css.properties = mergeCssProperties(node.css.properties, [
+      ["white-space", nowrap ? "pre" : "pre-line"],
+    ]);
+  }
+
+  function visit(node: MarkupNode) {
+    if (node.text !== undefined && node.tag !== "span") {
+      preserveLineBreaks(node);
+      const prop = uniqueIdentifier(
+        camelIdentifier(node.layerName),
+        usedIdentifiers,
+      );
+      model.props.push({
+        name: prop,
+        value: { literal: normalizeLineBreaks(node.text) },
+      });
+      model.bindings.set(node, prop);
+      return;
+    }
+    if (node.svg || node.tag === "img") {
+      const asset = assetFor(node);
+      if ("identifier" in asset) model.bindings.set(node, asset.identifier);
+      return;
+    }
+
+    // Consecutive siblings with the same structure become a list
+    const isListable = (child: MarkupNode) =>
+      child.children.length > 0 &&
+      child.text === undefined &&
+      !child.css.properties.some(
+        ([p, v]) => p === "position" && v === "absolute",
+      );
+    let i = 0;
+    while (i < node.children.length) {
+      const first = node.children[i];
+      let end = i + 1;
+      if (isListable(first)) {
+        const signature = markupSignature(first);
+        while (
+          end < node.children.length &&
+          isListable(node.children[end]) &&
+          markupSignature(node.children[end]) === signature
+        ) {
+          end++;
+        }
+      }
+
+      if (end - i >= 2) {
+        const items = node.children.slice(i, end);
+        const templateLeaves = markupLeaves(first);
+        const usedFields = new Map<string, number>();
+        const fields = new Map<MarkupNode, string>();
+        for (const leaf of templateLeaves) {
+          preserveLineBreaks(leaf);
+          fields.set(
+            leaf,
+            uniqueIdentifier(camelIdentifier(leaf.layerName), usedFields),
+          );
+        }
+        const values = items.map((item) =>
+          markupLeaves(item).map((leaf, j): [string, ComponentValue] => [
+            fields.get(templateLeaves[j])!,
+            leaf.text !== undefined
+              ? { literal: normalizeLineBreaks(leaf.text) }
+              : assetFor(leaf),
+          ]),
+        );
+        const prop = uniqueIdentifier(
+          `${camelIdentifier(first.layerName.replace(/[\s_-]*\d+$/, ""))}Items`,
+          usedIdentifiers,
+        );
+        model.lists.set(first, {
+          prop,
+          template: first,
+          items,
+          fields,
+          values,
+        });
+        items.slice(1).forEach((item) => model.skipped.add(item));
+      } else {
+        visit(first);
+      }
+      i = end;
+    }
+  }
+  visit(root);
+
+  // styled-components: one component per styled node
+  if (styling === "styled-components") {
+    const usedNames = new Map<string, number>([[name, 1]]);
+    const assign = (node: MarkupNode, isRoot: boolean) => {
+      if (model.skipped.has(node)) return;
+      if (node.className) {
+        model.styledNames.set(
+          node,
+          uniqueIdentifier(
+            isRoot ? "Root" : pascalIdentifier(node.className),
+            usedNames,
+          ),
+        );
+      }
+      node.children.forEach((child) => assign(child, false));
+    };
+    assign(root, true);
+  }
+
+  return model;
+}
+
+// Defaults a browser stylesheet would otherwise add to generated elements
+function applyComponentCssDefaults(node: MarkupNode): void {
+  if (/^(h[1-6]|p)$/.test(node.tag)) {
+    node.css.properties = mergeCssProperties(
+      [["margin", "0"]],
+      node.css.properties,
+    );
+  }
+  if (node.css.properties.some(([p]) => p === "padding")) {
+    node.css.properties = mergeCssProperties(node.css.properties, [
+      ["box-sizing", "border-box"],
+    ]);
+  }
+  node.children.forEach(applyComponentCssDefaults);
+}
+
+// Tailwind utilities for CSS properties, using arbitrary values for exact design sizes
+function cssToTailwind(properties: [string, string][]): string[] {
+  const classes: string[] = [];
+  const arbitrary = (value: string) => value.replace(/\s+/g, "_");
+  const simple: Record<string, Record<string, string>> = {
+    display: { flex: "flex", grid: "grid", block: "block" },
+    "flex-direction": { row: "flex-row", column: "flex-col" },
+    "flex-wrap": { wrap: "flex-wrap" },
+    position: { absolute: "absolute", relative: "relative" },
+    "justify-content": {
+      "flex-start": "justify-start",
+      center: "justify-center",
+      "flex-end": "justify-end",
+      "space-between": "justify-between",
+    },
+    "align-items": {
+      "flex-start": "items-start",
+      center: "items-center",
+      "flex-end": "items-end",
+      stretch: "items-stretch",
+    },
+    "font-style": { italic: "italic" },
+    "text-align": {
+      center: "text-center",
+      right: "text-right",
+      justify: "text-justify",
+    },
+    "text-transform": { uppercase: "uppercase" },
+    "font-variant": { "small-caps": "[font-variant:small-caps]" },
+    "white-space": {
+      nowrap: "whitespace-nowrap",
+      pre: "whitespace-pre",
+      "pre-line": "whitespace-pre-line",
+    },
+    "box-sizing": { "border-box": "box-border" },
+    margin: { "0": "m-0" },
+  };
+  const prefixed: Record<string, string> = {
+    width: "w",
+    height: "h",
+    "min-height": "min-h",
+    "max-width": "max-w",
+    left: "left",
+    top: "top",
+    "background-color": "bg",
+    color: "text",
+    "font-size": "text",
+    "font-weight": "font",
+    "font-family": "font",
+    "line-height": "leading",
+    "letter-spacing": "tracking",
+    "border-radius": "rounded",
+    opacity: "opacity",
+    "box-shadow": "shadow",
+  };
+
+  for (const [property, value] of properties) {
+    if (simple[property]?.[value]) {
+      classes.push(simple[property][value]);
+    } else if (property === "text-decoration") {
+      classes.push(
+        ...value
+          .split(" ")
+          .map((v) => (v === "underline" ? "underline" : "line-through")),
+      );
+    } else if (property === "gap") {
+      const [row, column] = value.split(" ");
+      classes.push(
+        column
+          ? `gap-y-[${row}] gap-x-[${column}]`
+          : `gap-[${arbitrary(value)}]`,
+      );
+    } else if (property === "padding") {
+      const [top, right, bottom, left] = value.split(" ");
+      const sides: [string, string][] = [
+        ["pt", top],
+        ["pr", right ?? top],
+        ["pb", bottom ?? top],
+        ["pl", left ?? right ?? top],
+      ];
+      if (sides.every(([, v]) => v === top)) {
+        classes.push(`p-[${top}]`);
+      } else {
+        for (const [prefix, v] of sides) {
+          if (v !== "0px") classes.push(`${prefix}-[${v}]`);
+        }
+      }
+    } else if (prefixed[property]) {
+      classes.push(`${prefixed[property]}-[${arbitrary(value)}]`);
+    } else {
+      classes.push(`[${property}:${arbitrary(value)}]`);
+    }
+  }
+  return classes;
+}
+
+// Value as a TypeScript expression
+function componentValueToCode(value: ComponentValue): string {
+  return "literal" in value ? JSON.stringify(value.literal) : value.identifier;
+}
+
+// Static text for a template, with line breaks as <br />
+function staticTextToMarkup(
+  text: string,
+  framework: ComponentFramework,
+): string {
+  return normalizeLineBreaks(text)
+    .split("\n")
+    .map((line) =>
+      framework === "react-tsx"
+        ? /[{}<>]/.test(line)
+          ? `{${JSON.stringify(line)}}`
+          : line
+        : escapeHtml(line).replace(/\{/g, "&#123;").replace(/\}/g, "&#125;"),
+    )
+    .join("<br />");
+}
+
+// Class attribute referencing the node's styles
+function componentClassAttribute(
+  node: MarkupNode,
+  model: ComponentModel,
+): string {
+  const { framework, styling } = model;
+  if (!node.className || styling === "styled-components") return "";
+  if (styling === "tailwind") {
+    const classes = cssToTailwind(node.css.properties).join(" ");
+    if (!classes) return "";
+    return framework === "react-tsx"
+      ? ` className="${classes}"`
+      : ` class="${classes}"`;
+  }
+  if (framework === "react-tsx") {
+    return ` className={styles.${camelIdentifier(node.className)}}`;
+  }
+  if (framework === "vue-sfc") {
+    return ` :class="$style.${camelIdentifier(node.className)}"`;
+  }
+  return ` class="${node.className}"`;
+}
+
+// Render one node of a component template
+function renderComponentNode(
+  node: MarkupNode,
+  model: ComponentModel,
+  indent: string,
+  item?: { list: ComponentList; isRoot: boolean },
+): string[] {
+  const { framework, styling } = model;
+  const isReact = framework === "react-tsx";
+  const expression = (code: string) =>
+    framework === "vue-sfc" ? `{{ ${code} }}` : `{${code}}`;
+  const bind = (attr: string, code: string) =>
+    framework === "vue-sfc" ? ` :${attr}="${code}"` : ` ${attr}={${code}}`;
+
+  // Repeated siblings render once from the list
+  const list = model.lists.get(node);
+  if (list && !item) {
+    if (isReact) {
+      return [
+        `${indent}{${list.prop}.map((item, index) => (`,
+        ...renderComponentNode(node, model, indent + "  ", {
+          list,
+          isRoot: true,
+        }),
+        `${indent}))}`,
+      ];
+    }
+    if (framework === "svelte") {
+      return [
+        `${indent}{#each ${list.prop} as item}`,
+        ...renderComponentNode(node, model, indent + "  ", {
+          list,
+          isRoot: true,
+        }),
+        `${indent}{/each}`,
+      ];
+    }
+    return renderComponentNode(node, model, indent, { list, isRoot: true });
+  }
+
+  const binding = item ? item.list.fields.get(node) : model.bindings.get(node);
+  const bindingCode = binding && item ? `item.${binding}` : binding;
+  const tag = model.styledNames.get(node) ?? (node.svg ? "img" : node.tag);
+
+  let attributes = "";
+  if (item?.isRoot) {
+    attributes +=
+      framework === "vue-sfc"
+        ? ` v-for="(item, index) in ${item.list.prop}" :key="index"`
+        : isReact
+          ? " key={index}"
+          : "";
+  }
+  attributes += componentClassAttribute(node, model);
+  if ((node.tag === "img" || node.svg) && bindingCode) {
+    attributes += bind("src", bindingCode);
+  }
+  for (const [attr, value] of node.attributes) {
+    if (attr === "src") continue;
+    attributes += ` ${attr}="${escapeHtml(value)}"`;
+  }
+
+  if (node.tag === "img" || node.svg) {
+    return [`${indent}<${tag}${attributes} />`];
+  }
+  if (node.text !== undefined) {
+    const content = bindingCode
+      ? expression(bindingCode)
+      : staticTextToMarkup(node.text, framework);
+    return [`${indent}<${tag}${attributes}>${content}</${tag}>`];
+  }
+  if (
+    node.children.length > 0 &&
+    node.children.every((c) => c.tag === "span")
+  ) {
+    const inline = node.children
+      .map((child) => {
+        const content = staticTextToMarkup(child.text ?? "", framework);
+        if (!child.className) return content;
+        const childTag = model.styledNames.get(child) ?? "span";
+        return `<${childTag}${componentClassAttribute(child, model)}>${content}</${childTag}>`;
+      })
+      .join("");
+    return [`${indent}<${tag}${attributes}>${inline}</${tag}>`];
+  }
+
+  return [
+    `${indent}<${tag}${attributes}>`,
+    ...node.children
+      .filter((child) => !model.skipped.has(child))
+      .flatMap((child) =>
+        renderComponentNode(
+          child,
+          model,
+          indent + "  ",
+          item ? { list: item.list, isRoot: false } : undefined,
+        ),
+      ),
+    `${indent}</${tag}>`,
+  ];
+}
+
+// Stylesheet rules for all styled nodes, keyed the way the framework references them
+function componentCssRules(model: ComponentModel, root: MarkupNode): string[] {
+  const rules: string[] = [];
+  const visit = (node: MarkupNode) => {
+    if (model.skipped.has(node)) return;
+    if (
+      node.className &&
+      (node.css.properties.length > 0 || node.css.notes.length > 0)
+    ) {
+      const className =
+        model.framework === "svelte"
+          ? node.className
+          : camelIdentifier(node.className);
+      rules.push(
+        formatCssRule(`.${className}`, node.css.properties, node.css.notes),
+      );
+    }
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return rules;
+}
+
+// styled-components definitions for all styled nodes
+function styledComponentDefinitions(
+  model: ComponentModel,
+  root: MarkupNode,
+): string[] {
+  const definitions: string[] = [];
+  const visit = (node: MarkupNode) => {
+    const name = model.styledNames.get(node);
+    if (name) {
+      const element = node.svg ? "img" : node.tag;
+      definitions.push(
+        [
+          `const ${name} = styled.${element}\``,
+          ...node.css.notes.map((note) => `  /* ${note} */`),
+          ...node.css.properties.map(([p, v]) => `  ${p}: ${v};`),
+          "`;",
+        ].join("\n"),
+      );
+    }
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return definitions;
+}
+
+// TypeScript type of a list prop
+function componentListType(list: ComponentList): string {
+  const fields = [...new Set(list.fields.values())]
+    .map((field) => `${field}: string`)
+    .join("; ");
+  return `{ ${fields} }[]`;
+}
+
+// Prop and list types as TypeScript members
+function componentPropTypes(model: ComponentModel): string[] {
+  const lines = model.props.map((prop) => `${prop.name}?: string;`);
+  for (const list of model.lists.values()) {
+    lines.push(`${list.prop}?: ${componentListType(list)};`);
+  }
+  return lines;
+}
+
+// Default values as [name, code] pairs
+function componentDefaults(model: ComponentModel): [string, string][] {
+  const defaults: [string, string][] = model.props.map((prop) => [
+    prop.name,
+    componentValueToCode(prop.value),
+  ]);
+  for (const list of model.lists.values()) {
+    const items = list.values.map(
+      (fields) =>
+        `{ ${fields.map(([field, value]) => `${field}: ${componentValueToCode(value)}`).join(", ")} }`,
+    );
+    defaults.push([
+      list.prop,
+      `[\n${items.map((i) => `  ${i},`).join("\n")}\n]`,
+    ]);
+  }
+  return defaults;
+}
+
+function indentLines(text: string, indent: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? indent + line : line))
+    .join("\n");
+}
+
+// Generated source files for a component
+function renderComponentFiles(
+  model: ComponentModel,
+  root: MarkupNode,
+  assetDir: string,
+): { filename: string; language: string; content: string }[] {
+  const { name, framework, styling } = model;
+  const files: { filename: string; language: string; content: string }[] = [];
+  const assetImports = model.assets.map(
+    (asset) =>
+      `import ${asset.identifier} from "./${assetDir}/${asset.filename}";`,
+  );
+  const defaults = componentDefaults(model);
+  const propTypes = componentPropTypes(model);
+  const cssRules =
+    styling === "tailwind" || styling === "styled-components"
+      ? []
+      : componentCssRules(model, root);
+
+  if (framework === "react-tsx") {
+    const imports = [
+      ...(styling === "css-modules"
+        ? [`import styles from "./${name}.module.css";`]
+        : []),
+      ...(styling === "styled-components"
+        ? ['import styled from "styled-components";']
+        : []),
+      ...assetImports,
+    ];
+    const styled =
+      styling === "styled-components"
+        ? styledComponentDefinitions(model, root)
+        : [];
+    const params = defaults
+      .map(([prop, code]) => `  ${prop} = ${indentLines(code, "  ").trim()},`)
+      .join("\n");
+    const parts = [
+      imports.join("\n"),
+      ...styled,
+      [
+        `export interface ${name}Props {`,
+        ...propTypes.map((line) => `  ${line}`),
+        "}",
+      ].join("\n"),
+      [
+        defaults.length > 0
+          ? `export function ${name}({\n${params}\n}: ${name}Props) {`
+          : `export function ${name}(_props: ${name}Props) {`,
+        "  return (",
+        ...renderComponentNode(root, model, "    "),
+        "  );",
+        "}",
+      ].join("\n"),
+      `export default ${name};`,
+    ];
+    files.push({
+      filename: `${name}.tsx`,
+      language: "tsx",
+      content: parts.filter(Boolean).join("\n\n") + "\n",
+    });
+    if (styling === "css-modules") {
+      files.push({
+        filename: `${name}.module.css`,
+        language: "css",
+        content: cssRules.join("\n\n") + "\n",
+      });
+    }
+    return files;
+  }
+
+  if (framework === "vue-sfc") {
+    const defaultsBlock = defaults
+      .map(([prop, code]) =>
+        code.startsWith("[")
+          ? `    ${prop}: () => ${indentLines(code, "    ").trim()},`
+          : `    ${prop}: ${code},`,
+      )
+      .join("\n");
+    const script = [
+      '<script setup lang="ts">',
+      ...(assetImports.length > 0 ? [...assetImports, ""] : []),
+      "withDefaults(",
+      "  defineProps<{",
+      ...propTypes.map((line) => `    ${line}`),
+      "  }>(),",
+      "  {",
+      ...(defaultsBlock ? [defaultsBlock] : []),
+      "  },",
+      ");",
+      "</script>",
+    ].join("\n");
+    const template = [
+      "<template>",
+      ...renderComponentNode(root, model, "  "),
+      "</template>",
+    ].join("\n");
+    const style =
+      cssRules.length > 0
+        ? `<style module>\n${cssRules.join("\n\n")}\n</style>`
+        : "";
+    files.push({
+      filename: `${name}.vue`,
+      language: "vue",
+      content: [script, template, style].filter(Boolean).join("\n\n") + "\n",
+    });
+    return files;
+  }
+
+  // Svelte: props are exported variables and styles are scoped to the component
+  const propLines = [
+    ...model.props.map(
+      (prop) =>
+        `export let ${prop.name} = ${componentValueToCode(prop.value)};`,
+    ),
+    ...[...model.lists.values()].map((list) => {
+      const code = defaults.find(([prop]) => prop === list.prop)![1];
+      return `export let ${list.prop}: ${componentListType(list)} = ${code};`;
+    }),
+  ];
+  const script = [
+    '<script lang="ts">',
+    ...[...assetImports, ...(assetImports.length > 0 ? [""] : []), ...propLines]
+      .join("\n")
+      .split("\n")
+      .map((line) => (line ? `  ${line}` : line)),
+    "</script>",
+  ].join("\n");
+  const style =
+    cssRules.length > 0
+      ? `<style>\n${indentLines(cssRules.join("\n\n"), "  ")}\n</style>`
+      : "";
+  files.push({
+    filename: `${name}.svelte`,
+    language: "svelte",
+    content:
+      [script, renderComponentNode(root, model, "").join("\n"), style]
+        .filter(Boolean)
+        .join("\n\n") + "\n",
+  });
+  return files;
+}
+
+// Format layers as tree structure
+function formatLayerTree(layers: LayerInfo[], prefix: string = ""): string {
+  const lines: string[] = [];
+
+  layers.forEach((layer, index) => {
+    const isLast = index === layers.length - 1;
+    const connector = isLast ? "└── " : "├── ";
+    const childPrefix = isLast ? "    " : "│   ";
+
+    const typeLabel =
+      layer.type === "unknown"
+        ? ""
+        : layer.type === "adjustment" && layer.adjustment
+          ? `(adjustment: ${layer.adjustment.kind})`
+          : `(${layer.type})`;
+
+    const idLabel = layer.id !== undefined ? ` #${layer.id}` : "";
+    const visibilityMark = layer.visible ? "" : " [hidden]";
+
+    // Compositing details that change how the layer must be implemented
+    const marks: string[] = [];
+    if (layer.clipping) marks.push("clipped");
+    if (layer.hasLayerMask) marks.push("mask");
+    if (layer.hasVectorMask) marks.push("vector mask");
+    if (layer.blendMode !== "normal" && layer.blendMode !== "pass through") {
+      marks.push(layer.blendMode);
+    }
+    if (layer.opacity < 1) {
+      marks.push(`opacity ${Math.round(layer.opacity * 100)}%`);
+    }
+    if (layer.fillOpacity < 1) {
+      marks.push(`fill ${Math.round(layer.fillOpacity * 100)}%`);
+    }
+    if (layer.locked) marks.push("locked");
+    if (layer.layerColor) marks.push(`label: ${layer.layerColor}`);
+    if (layer.artboard) {
+      const { left, top, width, height } = layer.artboard;
+      marks.push(`frame ${left},${top} ${width}x${height}`);
+    }
+    const detailMarks = marks.map((mark) => ` [${mark}]`).join("");
+
+    lines.push(
+      `${prefix}${connector}${layer.name} ${typeLabel}${idLabel}${visibilityMark}${detailMarks}`,
+    );
+
+    if (layer.children && layer.children.length > 0) {
+      lines.push(formatLayerTree(layer.children, prefix + childPrefix));
+    }
+  });
+
+  return lines.join("\n");
+}
+
+// Find layer by name (recursive search)
+function findLayerByName(
+  layers: LayerInfo[],
+  name: string,
+  exact: boolean = false,
+): LayerInfo | null {
+  for (const layer of layers) {
+    const match = exact
+      ? layer.name === name
+      : layer.name.toLowerCase().includes(name.toLowerCase());
+
+    if (match) {
+      return layer;
+    }
+
+    if (layer.children) {
+      const found = findLayerByName(layer.children, name, exact);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// Search layers by name (returns all matches)
+function searchLayersByName(layers: LayerInfo[], name: string): LayerInfo[] {
+  const results: LayerInfo[] = [];
+
+  function traverse(items: LayerInfo[]) {
+    for (const layer of items) {
+      if (layer.name.toLowerCase().includes(name.toLowerCase())) {
+        results.push(layer);
+      }
+      if (layer.children) {
+        traverse(layer.children);
+      }
+    }
+  }
+
+  traverse(layers);
+  return results;
+}
+
+// Find a parsed artboard by name (partial match, case-insensitive)
+function findArtboardInfo(layers: LayerInfo[], name: string): LayerInfo {
+  const match = searchLayersByName(layers, name).find(
+    (l) => l.type === "artboard",
+  );
+  if (!match) {
+    throw new Error(`Artboard "${name}" not found`);
+  }
+  return match;
+}
+
+// Find a parsed layer by stable ID or full path
+function selectLayerInfo(
+  layers: LayerInfo[],
+  selector: LayerSelector,
+): LayerInfo {
+  const targetPath = selector.layerPath
+    ? normalizeLayerPath(selector.layerPath)
+    : undefined;
+  const matches: LayerInfo[] = [];
+
+  function traverse(items: LayerInfo[]) {
+    for (const layer of items) {
+      const match =
+        selector.layerId !== undefined
+          ? layer.id === selector.layerId
+          : layer.path === targetPath;
+      if (match) {
+        matches.push(layer);
+      }
+      if (layer.children) {
+        traverse(layer.children);
+      }
+    }
+  }
+
+  traverse(layers);
+  return pickSelectedLayer(
+    matches,
+    selector,
+    (layer) => `${layer.path} (id: ${layer.id ?? "none"})`,
+  );
+}
+
+// Get text layers only (flattened)
+function getTextLayers(layers: LayerInfo[]): LayerInfo[] {
+  const result: LayerInfo[] = [];
+
+  function traverse(items: LayerInfo[]) {
+    for (const layer of items) {
+      if (layer.type === "text") {
+        result.push(layer);
+      }
+      if (layer.children) {
+        traverse(layer.children);
+      }
+    }
+  }
+
+  traverse(layers);
+  return result;
+}
+
+// Note: Image layer export removed for simplicity
+// For image layers, you can export them from Photoshop/Affinity separately
+
+// Font extraction types
+interface FontUsage extends ParsedFontName {
+  fontName: string;
+  sizes: number[];
+  styles: {
+    regular: boolean;
+    bold: boolean;
+    italic: boolean;
+    fauxBold: boolean;
+    fauxItalic: boolean;
+  };
+  layers: string[];
+  colors: string[];
+}
+
+// Extract all fonts from text layers
+function extractAllFonts(
+  layers: Layer[],
+  profile: ColorProfile | null,
+): Map<string, FontUsage> {
+  const fontMap = new Map<string, FontUsage>();
+
+  function addFont(
+    fontName: string,
+    fontSize: number | undefined,
+    style: any,
+    layerName: string,
+  ) {
+    if (!fontName) return;
+
+    if (!fontMap.has(fontName)) {
+      const face = parseFontName(fontName);
+      fontMap.set(fontName, {
+        fontName,
+        ...face,
+        sizes: [],
+        styles: {
+          regular: false,
+          bold: false,
+          italic: false,
+          fauxBold: false,
+          fauxItalic: false,
+        },
+        layers: [],
+        colors: [],
+      });
+    }
+
+    const usage = fontMap.get(fontName)!;
+
+    // Add size
+    if (fontSize && !usage.sizes.includes(fontSize)) {
+      usage.sizes.push(fontSize);
+    }
+
+    // Track styles: bold and italic come from the font itself, faux styles
+    // from the text run
+    if (style?.fauxBold) usage.styles.fauxBold = true;
+    if (style?.fauxItalic) usage.styles.fauxItalic = true;
+    if (usage.weight >= 600) usage.styles.bold = true;
+    if (usage.style !== "normal") usage.styles.italic = true;
+    if (
+      !style?.fauxBold &&
+      !style?.fauxItalic &&
+      usage.weight < 600 &&
+      usage.style === "normal"
+    ) {
+      usage.styles.regular = true;
+    }
+
+    // Add layer name
+    if (!usage.layers.includes(layerName)) {
+      usage.layers.push(layerName);
+    }
+
+    // Add color
+    if (style?.fillColor) {
+      const hex = anyColorToHex(style.fillColor, profile, 255);
+      if (hex && !usage.colors.includes(hex)) {
+        usage.colors.push(hex);
+      }
+    }
+  }
+
+  function traverse(items: Layer[]) {
+    for (const layer of items) {
+      if (layer.text) {
+        const layerName = layer.name || "Unnamed";
+
+        // Check default style
+        if (layer.text.style?.font?.name) {
+          addFont(
+            layer.text.style.font.name,
+            layer.text.style.fontSize,
+            layer.text.style,
+            layerName,
+          );
+        }
+
+        // Check style runs (for text with multiple fonts)
+        if (layer.text.styleRuns) {
+          for (const run of layer.text.styleRuns) {
+            if (run.style?.font?.name) {
+              addFont(
+                run.style.font.name,
+                run.style.fontSize,
+                run.style,
+                layerName,
+              );
+            }
+          }
+        }
+      }
+
+      if (layer.children) {
+        traverse(layer.children);
+      }
+    }
+  }
+
+  traverse(layers);
+
+  // Sort sizes
+  for (const usage of fontMap.values()) {
+    usage.sizes.sort((a, b) => a - b);
+  }
+
+  return fontMap;
+}
+
+// Group font usages by family, ordered by weight, stretch and style
+function groupFontsByFamily(fonts: FontUsage[]): Map<string, FontUsage[]> {
+  const families = new Map<string, FontUsage[]>();
+  for (const font of [...fonts].sort(
+    (a, b) =>
+      a.family.localeCompare(b.family) ||
+      a.weight - b.weight ||
+      a.stretch.localeCompare(b.stretch) ||
+      a.style.localeCompare(b.style),
+  )) {
+    families.set(font.family, [...(families.get(font.family) ?? []), font]);
+  }
+  return families;
+}
+
+// Short face description (e.g. "600 italic condensed")
+function fontFaceLabel(face: ParsedFontName): string {
+  return [
+    face.weight,
+    ...(face.style !== "normal" ? [face.style] : []),
+    ...(face.stretch !== "normal" ? [face.stretch] : []),
+  ].join(" ");
+}
+
+// Distinct text style shared by one or more text runs
+interface TextStyleInfo {
+  name: string;
+  fontFamily: string;
+  fontWeight: number;
+  fontStyle: "normal" | "italic";
+  fontSize: number;
+  lineHeight: number;
+  letterSpacing: number;
+  textTransform?: "uppercase";
+  fontVariant?: "small-caps";
+  color?: string;
+  count: number;
+  layers: string[];
+}
+
+// Auto leading factor of the paragraph containing a character; Photoshop
+// defaults to 120%
+function autoLeadingAt(text: LayerTextData, index: number): number {
+  const fallback = text.paragraphStyle?.autoLeading ?? 1.2;
+  let end = 0;
+  for (const run of text.paragraphStyleRuns ?? []) {
+    end += run.length;
+    if (index < end) return run.style.autoLeading ?? fallback;
+  }
+  return fallback;
+}
+
+// Group the runs of all visible text layers into named styles, most used first
+function extractTextStyles(psd: Psd, layers: Layer[]): TextStyleInfo[] {
+  const pxPerPt = pixelsPerPoint(psd);
+  const profile = documentProfile(psd);
+  const paths = buildLayerPathMap(layers);
+  const styles = new Map<string, Omit<TextStyleInfo, "name">>();
+
+  function traverse(items: Layer[]) {
+    for (const layer of items) {
+      if (layer.hidden) continue;
+      if (layer.children) traverse(layer.children);
+      if (!layer.text) continue;
+
+      const runs = extractTextRuns(layer.text, profile);
+      if (runs.length === 0) {
+        runs.push(
+          textStyleToRunInfo(
+            layer.text.style ?? {},
+            0,
+            layer.text.text.length,
+            layer.text.text,
+            profile,
+            textTransformScale(layer.text),
+          ),
+        );
+      }
+
+      for (const run of runs) {
+        if (!run.text.trim() || !run.font || !run.fontSize) continue;
+        const style: Omit<TextStyleInfo, "name" | "count" | "layers"> = {
+          fontFamily: fontFamilyFromName(run.font),
+          fontWeight: run.fontWeight ?? 400,
+          fontStyle: run.italic ? "italic" : "normal",
+          fontSize: textSizeToPx(run.fontSize, pxPerPt),
+          lineHeight: roundCss(
+            run.lineHeight
+              ? run.lineHeight / run.fontSize
+              : autoLeadingAt(layer.text, run.start),
+          ),
+          letterSpacing: roundCss((run.letterSpacing ?? 0) / 1000, 3),
+          ...(run.caps === "all-caps"
+            ? { textTransform: "uppercase" as const }
+            : {}),
+          ...(run.caps === "small-caps"
+            ? { fontVariant: "small-caps" as const }
+            : {}),
+          ...(run.color ? { color: run.color.toUpperCase() } : {}),
+        };
+        const key = JSON.stringify(style);
+        const existing = styles.get(key) ?? { ...style, count: 0, layers: [] };
+        existing.count++;
+        const layerPath = paths.get(layer) ?? layer.name ?? "Unnamed";
+        if (!existing.layers.includes(layerPath)) {
+          existing.layers.push(layerPath);
+        }
+        styles.set(key, existing);
+      }
+    }
+  }
+  traverse(layers);
+
+  // Name after the layers, falling back to the role implied by the size
+  const sorted = [...styles.values()].sort((a, b) => b.count - a.count);
+  const bodySize = sorted[0]?.fontSize ?? 0;
+  const usedNames = new Map<string, number>();
+  return sorted.map((style) => {
+    const fallback =
+      style.fontSize > bodySize
+        ? "heading"
+        : style.fontSize < bodySize
+          ? "small"
+          : "body";
+    const layerNames = style.layers.map((p) =>
+      splitLayerPath(p).pop()!.replace(/\\(.)/g, "$1"),
+    );
+    return {
+      name: uniqueTokenName(
+        tokenNameFromLayers(layerNames, fallback),
+        usedNames,
+      ),
+      ...style,
+    };
+  });
+}
+
+// CSS declarations of a text style
+function textStyleToCss(style: TextStyleInfo): [string, string][] {
+  const properties: [string, string][] = [
+    ["font-family", `'${style.fontFamily}', sans-serif`],
+    ["font-size", `${style.fontSize}px`],
+    ["font-weight", `${style.fontWeight}`],
+  ];
+  if (style.fontStyle === "italic") properties.push(["font-style", "italic"]);
+  properties.push(["line-height", `${style.lineHeight}`]);
+  if (style.letterSpacing) {
+    properties.push(["letter-spacing", `${style.letterSpacing}em`]);
+  }
+  if (style.textTransform) {
+    properties.push(["text-transform", style.textTransform]);
+  }
+  if (style.fontVariant) properties.push(["font-variant", style.fontVariant]);
+  if (style.color) properties.push(["color", style.color]);
+  return properties;
+}
+
+// Design token with the layers it was found on
+interface DesignToken<T> {
+  name: string;
+  value: T;
+  layers: string[];
+}
+
+interface GradientTokenValue {
+  css: string;
+  angle: number;
+  stops: { color: string; position: number }[];
+}
+
+interface TypographyTokenValue {
+  fontName: string;
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  lineHeight?: number;
+  letterSpacing?: number;
+  italic?: boolean;
+}
+
+interface DesignTokens {
+  colors: DesignToken<string>[];
+  gradients: DesignToken<GradientTokenValue>[];
+  fontFamilies: DesignToken<string>[];
+  fontSizes: DesignToken<{ size: number; lineHeight?: number }>[];
+  typography: DesignToken<TypographyTokenValue>[];
+  spacing: DesignToken<number>[];
+  radii: DesignToken<number>[];
+  shadows: DesignToken<ShadowInfo[]>[];
+}
+
+// Default names Photoshop gives new layers carry no meaning
+const GENERIC_LAYER_NAME =
+  /^(layer|rectangle|rounded rectangle|ellipse|shape|group|vector|path|line|polygon|star|copy|image|text)(\s*\d+)?(\s+copy(\s*\d+)?)?$/i;
+
+// Token name from the first short, meaningful layer name
+function tokenNameFromLayers(layerNames: string[], fallback: string): string {
+  for (const layerName of layerNames) {
+    const trimmed = layerName.trim();
+    if (!trimmed || GENERIC_LAYER_NAME.test(trimmed)) continue;
+    if (trimmed.split(/\s+/).length > 3 || trimmed.length > 24) continue;
+    const slug = trimmed
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+    if (slug) return slug;
+  }
+  return fallback;
+}
+
+// Add a numeric suffix when a token name is already taken
+function uniqueTokenName(name: string, used: Map<string, number>): string {
+  const count = used.get(name) || 0;
+  used.set(name, count + 1);
+  return count === 0 ? name : `${name}-${count + 1}`;
+}
+
+// T-shirt size names for an ascending scale, centered on the anchor value
+function scaleNames(
+  count: number,
+  anchorIndex: number,
+  anchorName: string = "md",
+): string[] {
+  const names = [
+    "3xs",
+    "2xs",
+    "xs",
+    "sm",
+    anchorName,
+    "lg",
+    "xl",
+    "2xl",
+    "3xl",
+    "4xl",
+    "5xl",
+    "6xl",
+    "7xl",
+  ];
+  const start = 4 - anchorIndex;
+  if (start < 0 || start + count > names.length) {
+    return Array.from({ length: count }, (_, i) => `${i + 1}`);
+  }
+  return names.slice(start, start + count);
+}
+
+// Values with their layers, most used first
+function collectTokenValues<T>(
+  entries: { key: string; value: T; layer: string }[],
+): { value: T; layers: string[]; count: number }[] {
+  const grouped = new Map<
+    string,
+    { value: T; layers: string[]; count: number }
+  >();
+  for (const entry of entries) {
+    const existing = grouped.get(entry.key);
+    if (existing) {
+      existing.count++;
+      if (!existing.layers.includes(entry.layer)) {
+        existing.layers.push(entry.layer);
+      }
+    } else {
+      grouped.set(entry.key, {
+        value: entry.value,
+        layers: [entry.layer],
+        count: 1,
+      });
+    }
+  }
+  return [...grouped.values()].sort((a, b) => b.count - a.count);
+}
+
+// Gap and padding values of groups with a detectable stack layout
+function collectLayoutSpacing(
+  layers: LayerInfo[],
+): { value: number; layer: string }[] {
+  const result: { value: number; layer: string }[] = [];
+
+  function traverse(items: LayerInfo[]) {
+    for (const layer of items) {
+      if (!layer.visible || !layer.children) continue;
+      try {
+        const { container, layout } = inferStackLayout(layer);
+        if (
+          (layout.direction === "row" || layout.direction === "column") &&
+          layout.confidence >= 0.6
+        ) {
+          for (const gap of [layout.gap, layout.rowGap ?? 0]) {
+            if (gap > 0)
+              result.push({ value: Math.round(gap), layer: layer.name });
+          }
+          if (container.source !== "children") {
+            // Trailing padding usually follows from the content size, so it
+            // only counts when it mirrors the leading side
+            const { top, right, bottom, left } = layout.padding;
+            const paddings = [top, left];
+            if (Math.abs(bottom - top) <= LAYOUT_TOLERANCE)
+              paddings.push(bottom);
+            if (Math.abs(right - left) <= LAYOUT_TOLERANCE)
+              paddings.push(right);
+            for (const padding of paddings) {
+              if (padding > 0) {
+                result.push({ value: Math.round(padding), layer: layer.name });
+              }
+            }
+          }
+        }
+      } catch {
+        // Groups without visible content have no layout
+      }
+      traverse(layer.children);
+    }
+  }
+
+  traverse(layers);
+  return result;
+}
+
+// Pixels per point: Photoshop sets type in points, which match pixels only at
+// 72 ppi. The resolution is always stored in ppi; its unit is display-only.
+function pixelsPerPoint(psd: Psd): number {
+  const ppi = psd.imageResources?.resolutionInfo?.horizontalResolution;
+  return ppi ? ppi / 72 : 1;
+}
+
+// Displayed text size in CSS pixels for a size in points (text runs are
+// already scaled by the layer transform)
+function textSizeToPx(points: number, pxPerPt: number): number {
+  return roundCss(points * pxPerPt);
+}
+
+// Gradient of a layer: gradient overlay first, then a gradient fill
+function layerGradientToken(
+  layer: Layer,
+  profile: ColorProfile | null,
+): GradientTokenValue | null {
+  const overlay: GradientOverlayEffect | undefined = layer.effects?.disabled
+    ? undefined
+    : layer.effects?.gradientOverlay?.find((o) => o.enabled !== false);
+  const source =
+    overlay?.gradient && "colorStops" in overlay.gradient
+      ? {
+          gradient: overlay.gradient,
+          angle: overlay.angle,
+          style: overlay.type,
+          reverse: overlay.reverse,
+        }
+      : layer.vectorFill && "colorStops" in layer.vectorFill
+        ? {
+            gradient: layer.vectorFill,
+            angle: layer.vectorFill.angle,
+            style: layer.vectorFill.style,
+            reverse: layer.vectorFill.reverse,
+          }
+        : null;
+  if (!source) return null;
+
+  const css = gradientToCss(
+    source.gradient,
+    profile,
+    source.angle,
+    source.style,
+    source.reverse,
+  );
+  if (!css) return null;
+  return {
+    css,
+    angle: roundCss((((90 - (source.angle ?? 90)) % 360) + 360) % 360),
+    stops: source.gradient.colorStops.map((stop) => ({
+      color: anyColorToHex(stop.color, profile) ?? "#000000",
+      position: roundCss(source.reverse ? 1 - stop.location : stop.location),
+    })),
+  };
+}
+
+// Colors, gradients, typography, spacing, radii and shadows of a document
+function extractDesignTokens(psd: Psd): DesignTokens {
+  const layers = psd.children || [];
+  const globalAngle = psd.imageResources?.globalAngle ?? 120;
+  const profile = documentProfile(psd);
+  const pxPerPt = pixelsPerPoint(psd);
+  const palette = extractAllColors(layers, profile);
+  const fonts = Array.from(extractAllFonts(layers, profile).values());
+  const infos = layers.map((layer) => extractLayerInfo(layer, profile));
+
+  // Colors (shadow and glow colors belong to the shadow tokens)
+  const usedColorNames = new Map<string, number>();
+  const colors = collectTokenValues(
+    palette.solidColors
+      .filter((c) => !/shadow|glow/.test(c.source))
+      .map((c) => ({ key: c.hex, value: c.hex, layer: c.layerName })),
+  ).map((entry) => {
+    const isText = palette.solidColors.some(
+      (c) => c.hex === entry.value && c.source === "text",
+    );
+    return {
+      name: uniqueTokenName(
+        tokenNameFromLayers(entry.layers, isText ? "text" : "color"),
+        usedColorNames,
+      ),
+      value: entry.value,
+      layers: entry.layers,
+    };
+  });
+
+  // Per-layer gradients, radii and shadows
+  const gradientEntries: {
+    key: string;
+    value: GradientTokenValue;
+    layer: string;
+  }[] = [];
+  const radiusEntries: { key: string; value: number; layer: string }[] = [];
+  const shadowEntries: { key: string; value: ShadowInfo[]; layer: string }[] =
+    [];
+  function traverse(items: Layer[]) {
+    for (const layer of items) {
+      if (layer.hidden) continue;
+      const layerName = layer.name || "Unnamed";
+      const gradient = layerGradientToken(layer, profile);
+      if (gradient) {
+        gradientEntries.push({
+          key: gradient.css,
+          value: gradient,
+          layer: layerName,
+        });
+      }
+      const radius = cornerRadiusToCss(layer);
+      if (radius && /^[\d.]+px$/.test(radius)) {
+        radiusEntries.push({
+          key: radius,
+          value: parseFloat(radius),
+          layer: layerName,
+        });
+      }
+      const shadows = layer.text ? [] : layerShadows(layer, globalAngle);
+      if (shadows.length > 0) {
+        shadowEntries.push({
+          key: shadows.map((shadow) => shadowToCss(shadow, profile)).join(", "),
+          value: shadows,
+          layer: layerName,
+        });
+      }
+      if (layer.children) traverse(layer.children);
+    }
+  }
+  traverse(layers);
+
+  const usedGradientNames = new Map<string, number>();
+  const gradients = collectTokenValues(gradientEntries).map((entry) => ({
+    name: uniqueTokenName(
+      tokenNameFromLayers(entry.layers, "gradient"),
+      usedGradientNames,
+    ),
+    value: entry.value,
+    layers: entry.layers,
+  }));
+
+  const usedShadowNames = new Map<string, number>();
+  const shadows = collectTokenValues(shadowEntries).map((entry) => ({
+    name: uniqueTokenName(
+      tokenNameFromLayers(entry.layers, "shadow"),
+      usedShadowNames,
+    ),
+    value: entry.value,
+    layers: entry.layers,
+  }));
+
+  // Font families, most used first
+  const usedFamilyNames = new Map<string, number>();
+  const families = new Map<string, string[]>();
+  for (const font of fonts) {
+    const family = fontFamilyFromName(font.fontName);
+    families.set(family, [...(families.get(family) ?? []), ...font.layers]);
+  }
+  const fontFamilies = [...families.entries()]
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([family, familyLayers]) => ({
+      name: uniqueTokenName(cssClassName(family), usedFamilyNames),
+      value: family,
+      layers: [...new Set(familyLayers)],
+    }));
+
+  // Font sizes on a scale anchored at the most used size, with its usual line height
+  const sizeUsage = new Map<
+    number,
+    { count: number; layers: string[]; lineHeights: number[] }
+  >();
+  for (const text of getTextLayers(infos)) {
+    if (!text.text?.fontSize) continue;
+    const size = textSizeToPx(text.text.fontSize, pxPerPt);
+    const usage = sizeUsage.get(size) ?? {
+      count: 0,
+      layers: [],
+      lineHeights: [],
+    };
+    usage.count += text.text.content.length;
+    usage.layers.push(text.name);
+    if (text.text.lineHeight) {
+      usage.lineHeights.push(textSizeToPx(text.text.lineHeight, pxPerPt));
+    }
+    sizeUsage.set(size, usage);
+  }
+  const sizes = [...sizeUsage.keys()].sort((a, b) => a - b);
+  const baseSize = [...sizeUsage.entries()].sort(
+    (a, b) => b[1].count - a[1].count,
+  )[0]?.[0];
+  const sizeNames = scaleNames(sizes.length, sizes.indexOf(baseSize), "base");
+  const fontSizes = sizes.map((size, i) => {
+    const usage = sizeUsage.get(size)!;
+    const lineHeights = collectTokenValues(
+      usage.lineHeights.map((lh) => ({ key: `${lh}`, value: lh, layer: "" })),
+    );
+    return {
+      name: sizeNames[i],
+      value: {
+        size,
+        lineHeight: lineHeights[0] ? roundCss(lineHeights[0].value) : undefined,
+      },
+      layers: usage.layers,
+    };
+  });
+
+  // Typography composites from the style runs, named after their layers
+  const styleEntries: {
+    key: string;
+    value: TypographyTokenValue;
+    layer: string;
+  }[] = [];
+  for (const text of getTextLayers(infos)) {
+    if (!text.text) continue;
+    const runs: Partial<TextRunInfo>[] = text.text.runs?.length
+      ? text.text.runs
+      : [{}];
+    for (const run of runs) {
+      const font = run.font ?? text.text.font;
+      const size = run.fontSize ?? text.text.fontSize;
+      if (!font || !size) continue;
+      const fontSize = textSizeToPx(size, pxPerPt);
+      const tracking = run.letterSpacing ?? text.text.letterSpacing;
+      const lineHeight = run.lineHeight ?? text.text.lineHeight;
+      const value: TypographyTokenValue = {
+        fontName: font,
+        fontFamily: fontFamilyFromName(font),
+        fontWeight: run.fontWeight ?? fontWeightFromName(font) ?? 400,
+        fontSize,
+        lineHeight: lineHeight ? textSizeToPx(lineHeight, pxPerPt) : undefined,
+        letterSpacing: tracking
+          ? roundCss((tracking / 1000) * fontSize)
+          : undefined,
+        italic: run.italic || undefined,
+      };
+      styleEntries.push({
+        key: JSON.stringify(value),
+        value,
+        layer: text.name,
+      });
+    }
+  }
+  const usedStyleNames = new Map<string, number>();
+  const typography = collectTokenValues(styleEntries)
+    .sort((a, b) => b.value.fontSize - a.value.fontSize)
+    .map((entry) => {
+      const sizeIndex = sizes.indexOf(entry.value.fontSize);
+      const fallback = sizeIndex >= 0 ? `text-${sizeNames[sizeIndex]}` : "text";
+      return {
+        name: uniqueTokenName(
+          tokenNameFromLayers(entry.layers, fallback),
+          usedStyleNames,
+        ),
+        value: entry.value,
+        layers: entry.layers,
+      };
+    });
+
+  // Spacing and radii on an ascending scale (most frequent values only)
+  const toScale = (
+    entries: { value: number; layers: string[]; count: number }[],
+  ): DesignToken<number>[] => {
+    const sorted = entries.slice(0, 10).sort((a, b) => a.value - b.value);
+    const anchor = Math.floor((sorted.length - 1) / 2);
+    const names = scaleNames(sorted.length, anchor);
+    return sorted.map((entry, i) => ({
+      name: names[i],
+      value: entry.value,
+      layers: entry.layers,
+    }));
+  };
+  const spacing = toScale(
+    collectTokenValues(
+      collectLayoutSpacing(infos).map((s) => ({ key: `${s.value}`, ...s })),
+    ),
+  );
+  const radii = toScale(collectTokenValues(radiusEntries));
+
+  return {
+    colors,
+    gradients,
+    fontFamilies,
+    fontSizes,
+    typography,
+    spacing,
+    radii,
+    shadows,
+  };
+}
+
+// Tailwind v3 config (theme.extend) or v4 @theme CSS for design tokens
+function tokensToTailwind(
+  tokens: DesignTokens,
+  profile: ColorProfile | null,
+  version: "v3" | "v4",
+): string {
+  if (version === "v4") {
+    const lines = ['@import "tailwindcss";', "", "@theme {"];
+    const section = (comment: string, entries: [string, string][]) => {
+      if (entries.length === 0) return;
+      lines.push(`  /* ${comment} */`);
+      for (const [name, value] of entries) {
+        lines.push(`  --${name}: ${value};`);
+      }
+      lines.push("");
+    };
+    section(
+      "Colors",
+      tokens.colors.map((t) => [`color-${t.name}`, t.value]),
+    );
+    section(
+      "Gradients (use with bg-(image:--gradient-*))",
+      tokens.gradients.map((t) => [`gradient-${t.name}`, t.value.css]),
+    );
+    section(
+      "Font families",
+      tokens.fontFamilies.map((t) => [
+        `font-${t.name}`,
+        `"${t.value}", sans-serif`,
+      ]),
+    );
+    section(
+      "Font sizes",
+      tokens.fontSizes.flatMap((t): [string, string][] => [
+        [`text-${t.name}`, `${t.value.size}px`],
+        ...(t.value.lineHeight
+          ? ([[`text-${t.name}--line-height`, `${t.value.lineHeight}px`]] as [
+              string,
+              string,
+            ][])
+          : []),
+      ]),
+    );
+    section(
+      "Spacing",
+      tokens.spacing.map((t) => [`spacing-${t.name}`, `${t.value}px`]),
+    );
+    section(
+      "Corner radii",
+      tokens.radii.map((t) => [`radius-${t.name}`, `${t.value}px`]),
+    );
+    section(
+      "Shadows",
+      tokens.shadows.map((t) => [
+        `shadow-${t.name}`,
+        t.value.map((shadow) => shadowToCss(shadow, profile)).join(", "),
+      ]),
+    );
+    if (lines[lines.length - 1] === "") lines.pop();
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  const extend: Record<string, Record<string, unknown>> = {};
+  const addSection = (key: string, entries: [string, unknown][]) => {
+    if (entries.length > 0) extend[key] = Object.fromEntries(entries);
+  };
+  addSection(
+    "colors",
+    tokens.colors.map((t) => [t.name, t.value]),
+  );
+  addSection(
+    "backgroundImage",
+    tokens.gradients.map((t) => [t.name, t.value.css]),
+  );
+  addSection(
+    "fontFamily",
+    tokens.fontFamilies.map((t) => [t.name, [t.value, "sans-serif"]]),
+  );
+  addSection(
+    "fontSize",
+    tokens.fontSizes.map((t) => [
+      t.name,
+      t.value.lineHeight
+        ? [`${t.value.size}px`, { lineHeight: `${t.value.lineHeight}px` }]
+        : `${t.value.size}px`,
+    ]),
+  );
+  addSection(
+    "spacing",
+    tokens.spacing.map((t) => [t.name, `${t.value}px`]),
+  );
+  addSection(
+    "borderRadius",
+    tokens.radii.map((t) => [t.name, `${t.value}px`]),
+  );
+  addSection(
+    "boxShadow",
+    tokens.shadows.map((t) => [
+      t.name,
+      t.value.map((shadow) => shadowToCss(shadow, profile)).join(", "),
+    ]),
+  );
+
+  // Unquote keys that are valid identifiers and keep tuples on one line
+  const body = JSON.stringify({ theme: { extend } }, null, 2)
+    .replace(/^(\s*)"([A-Za-z_$][\w$]*)":/gm, "$1$2:")
+    .replace(
+      /\[([^\[\]]*)\]/g,
+      (_, inner: string) =>
+        `[${inner
+          .trim()
+          .split(/\s*\n\s*/)
+          .join(" ")}]`,
+    );
+  return [
+    "/** @type {import('tailwindcss').Config} */",
+    `module.exports = ${body};`,
+  ].join("\n");
+}
+
+// Hex color with an alpha channel when not fully opaque
+function hexWithAlpha(
+  color: Color | undefined,
+  profile: ColorProfile | null,
+  opacity: number,
+): string {
+  const hex = anyColorToHex(color, profile) ?? "#000000";
+  if (opacity >= 1) return hex;
+  const alpha = Math.round(Math.max(0, opacity) * 255)
+    .toString(16)
+    .padStart(2, "0")
+    .toUpperCase();
+  return `${hex}${alpha}`;
+}
+
+// W3C Design Tokens Community Group (DTCG) JSON for design tokens
+function tokensToDtcg(
+  tokens: DesignTokens,
+  profile: ColorProfile | null,
+): Record<string, unknown> {
+  const px = (value: number) => `${value}px`;
+  const group = <T>(
+    items: DesignToken<T>[],
+    type: string,
+    toValue: (value: T) => unknown,
+  ): Record<string, unknown> =>
+    Object.fromEntries(
+      items.map((token) => [
+        token.name,
+        {
+          $type: type,
+          $value: toValue(token.value),
+          $extensions: { "psd-mcp-server": { layers: token.layers } },
+        },
+      ]),
+    );
+
+  const result: Record<string, unknown> = {
+    color: group(tokens.colors, "color", (hex) => hex),
+    gradient: group(tokens.gradients, "gradient", (gradient) =>
+      gradient.stops.map((stop) => ({
+        color: stop.color,
+        position: stop.position,
+      })),
+    ),
+    font: {
+      family: group(tokens.fontFamilies, "fontFamily", (family) => [
+        family,
+        "sans-serif",
+      ]),
+      size: group(tokens.fontSizes, "dimension", (size) => px(size.size)),
+    },
+    typography: group(tokens.typography, "typography", (style) => ({
+      fontFamily: style.fontFamily,
+      fontWeight: style.fontWeight,
+      fontSize: px(style.fontSize),
+      // DTCG line heights are a multiple of the font size
+      lineHeight: style.lineHeight
+        ? roundCss(style.lineHeight / style.fontSize)
+        : 1.2,
+      letterSpacing: px(style.letterSpacing ?? 0),
+    })),
+    spacing: group(tokens.spacing, "dimension", px),
+    radius: group(tokens.radii, "dimension", px),
+    shadow: group(tokens.shadows, "shadow", (shadows) => {
+      const values = shadows.map((shadow) => ({
+        color: hexWithAlpha(shadow.color, profile, shadow.opacity),
+        offsetX: px(shadow.x),
+        offsetY: px(shadow.y),
+        blur: px(shadow.blur),
+        spread: px(shadow.spread),
+        ...(shadow.inset ? { inset: true } : {}),
+      }));
+      return values.length === 1 ? values[0] : values;
+    }),
+  };
+
+  // Drop empty groups
+  for (const [key, value] of Object.entries(result)) {
+    const entries = Object.entries(value as Record<string, unknown>).filter(
+      ([, child]) =>
+        child && Object.keys(child as Record<string, unknown>).length > 0,
+    );
+    if (entries.length === 0) delete result[key];
+    else result[key] = Object.fromEntries(entries);
+  }
+  return result;
+}
+
+type TokenPlatform = "swift" | "android" | "compose" | "flutter";
+
+interface GeneratedFile {
+  filename: string;
+  language: string;
+  content: string;
+}
+
+// Swift keywords that must be escaped with backticks when used as names
+const SWIFT_KEYWORDS = new Set([
+  "associatedtype",
+  "as",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "continue",
+  "default",
+  "defer",
+  "deinit",
+  "do",
+  "else",
+  "enum",
+  "extension",
+  "fallthrough",
+  "false",
+  "fileprivate",
+  "for",
+  "func",
+  "guard",
+  "if",
+  "import",
+  "in",
+  "init",
+  "inout",
+  "internal",
+  "is",
+  "let",
+  "nil",
+  "open",
+  "operator",
+  "precedencegroup",
+  "private",
+  "protocol",
+  "public",
+  "repeat",
+  "rethrows",
+  "return",
+  "self",
+  "static",
+  "struct",
+  "subscript",
+  "super",
+  "switch",
+  "throw",
+  "throws",
+  "true",
+  "try",
+  "typealias",
+  "var",
+  "where",
+  "while",
+]);
+
+// Kotlin hard keywords and the Compose types the generated files call
+const KOTLIN_RESERVED_NAMES = new Set([
+  "as",
+  "break",
+  "class",
+  "continue",
+  "do",
+  "else",
+  "false",
+  "for",
+  "fun",
+  "if",
+  "in",
+  "interface",
+  "is",
+  "null",
+  "object",
+  "package",
+  "return",
+  "super",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typealias",
+  "typeof",
+  "val",
+  "var",
+  "when",
+  "while",
+  "Color",
+  "Font",
+  "FontFamily",
+  "FontStyle",
+  "FontWeight",
+  "TextStyle",
+]);
+
+// Dart reserved words, which cannot be used as names at all
+const DART_RESERVED_WORDS = new Set([
+  "assert",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "do",
+  "else",
+  "enum",
+  "extends",
+  "false",
+  "final",
+  "finally",
+  "for",
+  "if",
+  "in",
+  "is",
+  "new",
+  "null",
+  "rethrow",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "var",
+  "void",
+  "while",
+  "with",
+]);
+
+// Swift member name, backtick-escaped when it is a keyword
+function swiftIdentifier(name: string): string {
+  const identifier = camelIdentifier(name);
+  return SWIFT_KEYWORDS.has(identifier) ? `\`${identifier}\`` : identifier;
+}
+
+// Kotlin (Compose) member name that is not a keyword or a referenced type
+function kotlinIdentifier(name: string, suffix: string): string {
+  const identifier = pascalIdentifier(name);
+  return KOTLIN_RESERVED_NAMES.has(identifier)
+    ? `${identifier}${suffix}`
+    : identifier;
+}
+
+// Dart member name that is not a reserved word
+function dartIdentifier(name: string, suffix: string): string {
+  const identifier = camelIdentifier(name);
+  return DART_RESERVED_WORDS.has(identifier)
+    ? `${identifier}${suffix}`
+    : identifier;
+}
+
+// Material 3 type scale slots with their default size and weight
+const MATERIAL_TEXT_THEME_SLOTS: [string, number, number][] = [
+  ["displayLarge", 57, 400],
+  ["displayMedium", 45, 400],
+  ["displaySmall", 36, 400],
+  ["headlineLarge", 32, 400],
+  ["headlineMedium", 28, 400],
+  ["headlineSmall", 24, 400],
+  ["titleLarge", 22, 400],
+  ["titleMedium", 16, 500],
+  ["titleSmall", 14, 500],
+  ["bodyLarge", 16, 400],
+  ["bodyMedium", 14, 400],
+  ["bodySmall", 12, 400],
+  ["labelLarge", 14, 500],
+  ["labelMedium", 12, 500],
+  ["labelSmall", 11, 500],
+];
+
+// Closest Material 3 text theme slot for each typography token
+function materialTextThemeSlots(
+  typography: DesignToken<TypographyTokenValue>[],
+): Map<string, DesignToken<TypographyTokenValue>> {
+  const slots = new Map<string, DesignToken<TypographyTokenValue>>();
+  for (const token of typography) {
+    let best: { slot: string; score: number } | null = null;
+    for (const [slot, size, weight] of MATERIAL_TEXT_THEME_SLOTS) {
+      if (slots.has(slot)) continue;
+      const score =
+        Math.abs(token.value.fontSize - size) +
+        Math.abs(token.value.fontWeight - weight) / 100;
+      if (!best || score < best.score) best = { slot, score };
+    }
+    if (best && best.score <= 4) slots.set(best.slot, token);
+  }
+  return slots;
+}
+
+// 0-1 RGB channels of a #RRGGBB color
+function hexToRgbUnit(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", "").slice(0, 6), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(
+    (channel) => Math.round((channel / 255) * 1000) / 1000,
+  ) as [number, number, number];
+}
+
+// ARGB literal (0xFFRRGGBB) used by Compose and Flutter
+function argbLiteral(hex: string): string {
+  return `0xFF${hex.replace("#", "").slice(0, 6).toUpperCase()}`;
+}
+
+// Android resource name (lowercase letters, digits and underscores)
+function androidResourceName(name: string): string {
+  const resource = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(resource) ? resource : `value_${resource}`;
+}
+
+// Letter spacing as a fraction of the font size (em)
+function letterSpacingEm(style: TypographyTokenValue): number | undefined {
+  return style.letterSpacing
+    ? Math.round((style.letterSpacing / style.fontSize) * 1000) / 1000
+    : undefined;
+}
+
+function swiftTokenFiles(tokens: DesignTokens): GeneratedFile[] {
+  const lines = ["import SwiftUI", "import UIKit", ""];
+  const colorNames = tokens.colors.map((token) => swiftIdentifier(token.name));
+
+  // Own namespaces, so token names never clash with UIColor or Color members
+  if (tokens.colors.length > 0) {
+    lines.push("enum DesignUIColors {");
+    tokens.colors.forEach((token, i) => {
+      const [r, g, b] = hexToRgbUnit(token.value);
+      lines.push(
+        `    static let ${colorNames[i]} = UIColor(red: ${r}, green: ${g}, blue: ${b}, alpha: 1) // ${token.value}`,
+      );
+    });
+    lines.push("}", "", "enum DesignColors {");
+    colorNames.forEach((name) => {
+      lines.push(
+        `    static let ${name} = Color(uiColor: DesignUIColors.${name})`,
+      );
+    });
+    lines.push("}", "");
+  }
+
+  if (tokens.typography.length > 0) {
+    lines.push(
+      "struct DesignTextStyle {",
+      "    let fontName: String",
+      "    let size: CGFloat",
+      "    let lineHeight: CGFloat?",
+      "    let tracking: CGFloat",
+      "",
+      "    var uiFont: UIFont {",
+      "        UIFont(name: fontName, size: size) ?? .systemFont(ofSize: size)",
+      "    }",
+      "",
+      "    var font: Font {",
+      "        Font.custom(fontName, size: size)",
+      "    }",
+      "}",
+      "",
+      "extension DesignTextStyle {",
+    );
+    for (const token of tokens.typography) {
+      const style = token.value;
+      lines.push(
+        `    static let ${swiftIdentifier(token.name)} = DesignTextStyle(fontName: "${style.fontName}", size: ${style.fontSize}, lineHeight: ${style.lineHeight ?? "nil"}, tracking: ${style.letterSpacing ?? 0})`,
+      );
+    }
+    lines.push(
+      "}",
+      "",
+      "extension View {",
+      "    func textStyle(_ style: DesignTextStyle) -> some View {",
+      "        let lineSpacing = (style.lineHeight ?? style.uiFont.lineHeight) - style.uiFont.lineHeight",
+      "        return font(style.font)",
+      "            .tracking(style.tracking)",
+      "            .lineSpacing(max(0, lineSpacing))",
+      "    }",
+      "}",
+      "",
+    );
+  }
+
+  const dimensions = [
+    ...tokens.spacing.map((t) => [camelIdentifier(`spacing ${t.name}`), t]),
+    ...tokens.radii.map((t) => [camelIdentifier(`radius ${t.name}`), t]),
+  ] as [string, DesignToken<number>][];
+  if (dimensions.length > 0) {
+    lines.push("enum Dimens {");
+    for (const [name, token] of dimensions) {
+      lines.push(`    static let ${name}: CGFloat = ${token.value}`);
+    }
+    lines.push("}", "");
+  }
+
+  return [
+    {
+      filename: "DesignTokens.swift",
+      language: "swift",
+      content: lines.join("\n"),
+    },
+  ];
+}
+
+function androidTokenFiles(tokens: DesignTokens): GeneratedFile[] {
+  const header = ['<?xml version="1.0" encoding="utf-8"?>', "<resources>"];
+  const colors = [
+    ...header,
+    ...tokens.colors.map(
+      (t) =>
+        `    <color name="${androidResourceName(t.name)}">${t.value.toUpperCase()}</color>`,
+    ),
+    "</resources>",
+    "",
+  ];
+  const dimens = [
+    ...header,
+    ...tokens.spacing.map(
+      (t) =>
+        `    <dimen name="${androidResourceName(`spacing ${t.name}`)}">${t.value}dp</dimen>`,
+    ),
+    ...tokens.radii.map(
+      (t) =>
+        `    <dimen name="${androidResourceName(`radius ${t.name}`)}">${t.value}dp</dimen>`,
+    ),
+    ...tokens.fontSizes.map(
+      (t) =>
+        `    <dimen name="${androidResourceName(`text size ${t.name}`)}">${t.value.size}sp</dimen>`,
+    ),
+    "</resources>",
+    "",
+  ];
+  const styles = [...header];
+  for (const token of tokens.typography) {
+    const style = token.value;
+    const spacing = letterSpacingEm(style);
+    styles.push(
+      `    <style name="TextAppearance.App.${pascalIdentifier(token.name)}">`,
+      `        <item name="android:fontFamily">@font/${androidResourceName(style.fontName)}</item>`,
+      `        <item name="android:textSize">${style.fontSize}sp</item>`,
+    );
+    if (style.lineHeight) {
+      styles.push(
+        `        <item name="android:lineHeight">${style.lineHeight}sp</item>`,
+      );
+    }
+    if (spacing) {
+      styles.push(
+        `        <item name="android:letterSpacing">${spacing}</item>`,
+      );
+    }
+    if (style.italic) {
+      styles.push(`        <item name="android:textStyle">italic</item>`);
+    }
+    styles.push("    </style>");
+  }
+  styles.push("</resources>", "");
+
+  return [
+    {
+      filename: "values/colors.xml",
+      language: "xml",
+      content: colors.join("\n"),
+    },
+    {
+      filename: "values/dimens.xml",
+      language: "xml",
+      content: dimens.join("\n"),
+    },
+    {
+      filename: "values/styles.xml",
+      language: "xml",
+      content: styles.join("\n"),
+    },
+  ];
+}
+
+function composeTokenFiles(
+  tokens: DesignTokens,
+  packageName: string,
+): GeneratedFile[] {
+  const packageLine = `package ${packageName}`;
+  const color = [
+    packageLine,
+    "",
+    "import androidx.compose.ui.graphics.Color",
+    "",
+    "object AppColors {",
+    ...tokens.colors.map(
+      (t) =>
+        `    val ${kotlinIdentifier(t.name, "Color")} = Color(${argbLiteral(t.value)})`,
+    ),
+    "}",
+    "",
+  ];
+
+  // One FontFamily per family, with a Font entry per weight and style
+  const families = new Map<string, Map<string, string>>();
+  for (const token of tokens.typography) {
+    const style = token.value;
+    const fonts = families.get(style.fontFamily) ?? new Map<string, string>();
+    fonts.set(
+      style.fontName,
+      `Font(R.font.${androidResourceName(style.fontName)}, FontWeight.W${style.fontWeight}${style.italic ? ", FontStyle.Italic" : ""})`,
+    );
+    families.set(style.fontFamily, fonts);
+  }
+  const type = [
+    packageLine,
+    "",
+    "import androidx.compose.ui.text.TextStyle",
+    "import androidx.compose.ui.text.font.Font",
+    "import androidx.compose.ui.text.font.FontFamily",
+    "import androidx.compose.ui.text.font.FontStyle",
+    "import androidx.compose.ui.text.font.FontWeight",
+    "import androidx.compose.ui.unit.em",
+    "import androidx.compose.ui.unit.sp",
+    "",
+  ];
+  for (const [family, fonts] of families) {
+    type.push(
+      `val ${pascalIdentifier(family)}FontFamily = FontFamily(`,
+      ...[...fonts.values()].map((font) => `    ${font},`),
+      ")",
+      "",
+    );
+  }
+  type.push("object AppTypography {");
+  for (const token of tokens.typography) {
+    const style = token.value;
+    const spacing = letterSpacingEm(style);
+    const args = [
+      `fontFamily = ${pascalIdentifier(style.fontFamily)}FontFamily`,
+      `fontWeight = FontWeight.W${style.fontWeight}`,
+      ...(style.italic ? ["fontStyle = FontStyle.Italic"] : []),
+      `fontSize = ${style.fontSize}.sp`,
+      ...(style.lineHeight ? [`lineHeight = ${style.lineHeight}.sp`] : []),
+      ...(spacing ? [`letterSpacing = ${spacing}.em`] : []),
+    ];
+    type.push(
+      `    val ${kotlinIdentifier(token.name, "Style")} = TextStyle(`,
+      ...args.map((arg) => `        ${arg},`),
+      "    )",
+    );
+  }
+  type.push("}", "");
+
+  const dimens = [
+    packageLine,
+    "",
+    "import androidx.compose.ui.unit.dp",
+    "",
+    "object AppDimens {",
+    ...tokens.spacing.map(
+      (t) => `    val ${pascalIdentifier(`spacing ${t.name}`)} = ${t.value}.dp`,
+    ),
+    ...tokens.radii.map(
+      (t) => `    val ${pascalIdentifier(`radius ${t.name}`)} = ${t.value}.dp`,
+    ),
+    "}",
+    "",
+  ];
+
+  return [
+    { filename: "Color.kt", language: "kotlin", content: color.join("\n") },
+    { filename: "Type.kt", language: "kotlin", content: type.join("\n") },
+    { filename: "Dimens.kt", language: "kotlin", content: dimens.join("\n") },
+  ];
+}
+
+function flutterTokenFiles(tokens: DesignTokens): GeneratedFile[] {
+  const lines = [
+    "import 'package:flutter/material.dart';",
+    "",
+    "class AppColors {",
+    "  AppColors._();",
+    "",
+    ...tokens.colors.map(
+      (t) =>
+        `  static const ${dartIdentifier(t.name, "Color")} = Color(${argbLiteral(t.value)});`,
+    ),
+    "}",
+    "",
+    "class AppTextStyles {",
+    "  AppTextStyles._();",
+    "",
+  ];
+  for (const token of tokens.typography) {
+    const style = token.value;
+    const args = [
+      `fontFamily: '${style.fontFamily}'`,
+      `fontWeight: FontWeight.w${style.fontWeight}`,
+      ...(style.italic ? ["fontStyle: FontStyle.italic"] : []),
+      `fontSize: ${style.fontSize}`,
+      ...(style.lineHeight
+        ? [`height: ${roundCss(style.lineHeight / style.fontSize)}`]
+        : []),
+      ...(style.letterSpacing ? [`letterSpacing: ${style.letterSpacing}`] : []),
+    ];
+    lines.push(
+      `  static const ${dartIdentifier(token.name, "Style")} = TextStyle(`,
+      ...args.map((arg) => `    ${arg},`),
+      "  );",
+    );
+  }
+  lines.push("}", "", "class AppDimens {", "  AppDimens._();", "");
+  for (const token of tokens.spacing) {
+    lines.push(
+      `  static const double ${camelIdentifier(`spacing ${token.name}`)} = ${token.value};`,
+    );
+  }
+  for (const token of tokens.radii) {
+    lines.push(
+      `  static const double ${camelIdentifier(`radius ${token.name}`)} = ${token.value};`,
+    );
+  }
+  lines.push("}", "");
+
+  const slots = materialTextThemeSlots(tokens.typography);
+  lines.push("final appTheme = ThemeData(");
+  if (tokens.fontFamilies[0]) {
+    lines.push(`  fontFamily: '${tokens.fontFamilies[0].value}',`);
+  }
+  lines.push("  textTheme: const TextTheme(");
+  for (const [slot] of MATERIAL_TEXT_THEME_SLOTS) {
+    const token = slots.get(slot);
+    if (token) {
+      lines.push(
+        `    ${slot}: AppTextStyles.${dartIdentifier(token.name, "Style")},`,
+      );
+    }
+  }
+  lines.push("  ),", ");", "");
+
+  return [
+    {
+      filename: "design_tokens.dart",
+      language: "dart",
+      content: lines.join("\n"),
+    },
+  ];
+}
+
+// Native token files for iOS, Android, Jetpack Compose or Flutter
+function tokensToPlatformFiles(
+  tokens: DesignTokens,
+  platform: TokenPlatform,
+  packageName: string = "com.example.ui.theme",
+): GeneratedFile[] {
+  switch (platform) {
+    case "swift":
+      return swiftTokenFiles(tokens);
+    case "android":
+      return androidTokenFiles(tokens);
+    case "compose":
+      return composeTokenFiles(tokens, packageName);
+    case "flutter":
+      return flutterTokenFiles(tokens);
+    default:
+      throw new Error(`Unknown platform: ${platform}`);
+  }
+}
+
+// Smart Object Types
+interface SmartObjectInfo {
+  layerName: string;
+  type: "vector" | "raster" | "imageStack" | "unknown";
+  transform?: {
+    xx: number;
+    xy: number;
+    yx: number;
+    yy: number;
+    tx: number;
+    ty: number;
+  };
+  width?: number;
+  height?: number;
+  linkedFileId?: string;
+  linkedFileName?: string;
+  linkedFileType?: string;
+  hasEmbeddedData: boolean;
+  externalFilePath?: string; // Path if external file was found
+}
+
+// Get all smart object layers from PSD
+function getAllSmartObjectLayers(
+  layers: Layer[],
+): { layer: Layer; path: string[] }[] {
+  const result: { layer: Layer; path: string[] }[] = [];
+
+  function traverse(items: Layer[], currentPath: string[]) {
+    for (const layer of items) {
+      if (layer.placedLayer) {
+        result.push({ layer, path: [...currentPath, layer.name || "Unnamed"] });
+      }
+      if (layer.children) {
+        traverse(layer.children, [...currentPath, layer.name || "Unnamed"]);
+      }
+    }
+  }
+
+  traverse(layers, []);
+  return result;
+}
+
+// Extract smart object information
+function extractSmartObjectInfo(
+  layer: Layer,
+  linkedFiles: any[] | undefined,
+  psdFilePath?: string,
+): SmartObjectInfo {
+  const placed = layer.placedLayer!;
+
+  // Determine type (ag-psd uses "image stack" not "imageStack")
+  let soType: SmartObjectInfo["type"] = "unknown";
+  if (placed.type === "vector") {
+    soType = "vector";
+  } else if (placed.type === "raster") {
+    soType = "raster";
+  } else if (placed.type === "image stack") {
+    soType = "imageStack";
+  }
+
+  // Find linked file
+  let linkedFile: any = undefined;
+  if (placed.id && linkedFiles) {
+    linkedFile = linkedFiles.find((f: any) => f.id === placed.id);
+  }
+
+  // Transform is an array [xx, xy, yx, yy, tx, ty] in ag-psd
+  const transform = placed.transform as number[] | undefined;
+
+  // Check for external file if no embedded data
+  let externalFilePath: string | undefined;
+  const hasEmbeddedData = !!(linkedFile?.data && linkedFile.data.length > 0);
+
+  if (!hasEmbeddedData && linkedFile?.name && psdFilePath) {
+    const psdDir = path.dirname(psdFilePath);
+    const linkedFileName = linkedFile.name;
+    const possiblePaths = [
+      path.join(psdDir, linkedFileName),
+      path.join(psdDir, "Links", linkedFileName),
+      path.join(psdDir, "links", linkedFileName),
+      path.join(psdDir, "..", linkedFileName),
+    ];
+    for (const tryPath of possiblePaths) {
+      if (fs.existsSync(tryPath)) {
+        externalFilePath = tryPath;
+        break;
+      }
+    }
+  }
+
+  return {
+    layerName: layer.name || "Unnamed",
+    type: soType,
+    transform:
+      transform && transform.length >= 6
+        ? {
+            xx: transform[0],
+            xy: transform[1],
+            yx: transform[2],
+            yy: transform[3],
+            tx: transform[4],
+            ty: transform[5],
+          }
+        : undefined,
+    width: placed.width,
+    height: placed.height,
+    linkedFileId: placed.id,
+    linkedFileName: linkedFile?.name,
+    linkedFileType: linkedFile?.type,
+    hasEmbeddedData,
+    externalFilePath,
+  };
+}
+
+// Design folders exposed as resources (PSD_RESOURCE_DIRS, path-delimiter separated)
+const RESOURCE_DIRS = (process.env.PSD_RESOURCE_DIRS || "")
+  .split(path.delimiter)
+  .filter((dir) => dir.trim().length > 0)
+  .map((dir) => path.resolve(dir.trim()));
+
+// Whether a file lies inside one of the configured design folders, after
+// resolving symlinks and ".." segments
+function isInResourceDir(absolutePath: string): boolean {
+  const realPath = fs.realpathSync(absolutePath);
+  return RESOURCE_DIRS.some((dir) => {
+    let realDir: string;
+    try {
+      realDir = fs.realpathSync(dir);
+    } catch (e) {
+      return false;
+    }
+    const relative = path.relative(realDir, realPath);
+    return (
+      relative.length > 0 &&
+      relative.split(path.sep)[0] !== ".." &&
+      !path.isAbsolute(relative)
+    );
+  });
+}
+
+// Build a psd:// URI; the file path is percent-encoded into a single segment
+function psdResourceUri(absolutePath: string, suffix: string): string {
+  return `psd://${encodeURIComponent(absolutePath)}/${suffix}`;
+}
+
+// Parse a psd:// URI into file path and requested view
+function parsePsdResourceUri(uri: string): {
+  filePath: string;
+  view: "layers" | "tokens" | "layer" | "layerImage";
+  layerId?: number;
+} {
+  const match = uri.match(
+    /^psd:\/\/([^/]+)\/(layers|tokens|layer\/(\d+)(\/image\.png)?)$/,
+  );
+  if (!match) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const filePath = decodeURIComponent(match[1]);
+  if (match[2] === "layers" || match[2] === "tokens") {
+    return { filePath, view: match[2] };
+  }
+  return {
+    filePath,
+    view: match[4] ? "layerImage" : "layer",
+    layerId: Number(match[3]),
+  };
+}
+
+// Find PSD/PSB files in the configured design folders
+function findDesignFiles(dirs: string[], maxDepth: number = 5): string[] {
+  const result: string[] = [];
+
+  function traverse(dir: string, depth: number) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (e) {
+      // Skip unreadable folders
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory() && depth < maxDepth) {
+        traverse(entryPath, depth + 1);
+      } else if (entry.isFile() && /\.(psd|psb)$/i.test(entry.name)) {
+        result.push(entryPath);
+      }
+    }
+  }
+
+  for (const dir of dirs) {
+    traverse(dir, 0);
+  }
+  return result.sort();
+}
+
+// Summarize text layers as markdown bullet points for prompts
+function describeTextLayers(textLayers: LayerInfo[]): string {
+  if (textLayers.length === 0) return "(no text layers)";
+  return textLayers
+    .map((layer) => {
+      const text = layer.text!;
+      const details = [
+        text.font,
+        text.fontSize !== undefined ? `${text.fontSize}px` : undefined,
+        text.color,
+        text.lineHeight !== undefined
+          ? `line-height ${text.lineHeight}`
+          : undefined,
+      ].filter((d) => d !== undefined);
+      const content = text.content.replace(/\s+/g, " ").trim();
+      return `- ${layer.path}: "${content}"${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+    })
+    .join("\n");
+}
+
+// Summarize a color palette as markdown bullet points for prompts
+function describePalette(palette: ColorPalette): string {
+  const lines = palette.uniqueColors.map((hex) => `- ${hex}`);
+  for (const grad of palette.gradients) {
+    lines.push(
+      `- gradient ${grad.name || "Unnamed"}: ${grad.colors.join(" → ")}`,
+    );
+  }
+  return lines.length > 0 ? lines.join("\n") : "(no colors found)";
+}
+
+// Prompt: implement one group of the design as a component
+function buildImplementSectionPrompt(
+  psdPath: string,
+  groupName: string,
+  framework: string,
+): string {
+  const absolutePath = path.resolve(psdPath);
+  const psdInfo = parsePsdFile(absolutePath);
+  const group = findLayerByName(psdInfo.layers, groupName, false);
+  if (!group) {
+    throw new Error(`Group "${groupName}" not found in ${absolutePath}`);
+  }
+
+  const psd = loadPsd(absolutePath, {
+    skipCompositeImageData: true,
+    skipLayerImageData: true,
+    skipThumbnail: true,
+  });
+  const rawGroup = selectLayer(
+    psd.children || [],
+    group.id !== undefined ? { layerId: group.id } : { layerPath: group.path },
+  );
+  const palette = extractAllColors([rawGroup], documentProfile(psd));
+  const { left, top, width, height } = group.bounds;
+
+  return [
+    `Implement the "${group.name}" section of ${absolutePath} using ${framework}.`,
+    "",
+    `Document size: ${psdInfo.width}x${psdInfo.height}`,
+    `Section: ${group.path}${group.id !== undefined ? ` (id: ${group.id})` : ""} at ${left},${top} ${width}x${height}`,
+    "",
+    "## Layer tree",
+    "",
+    formatLayerTree(group.children ? group.children : [group]),
+    "",
+    "## Text layers",
+    "",
+    describeTextLayers(getTextLayers([group])),
+    "",
+    "## Colors",
+    "",
+    describePalette(palette),
+    "",
+    "## Instructions",
+    "",
+    `1. Build the section as a ${framework} component that matches the layer tree above. Skip [hidden] layers.`,
+    "2. Use the exact text content, fonts, sizes and colors listed. Do not invent copy.",
+    "3. Derive layout from layer bounds (use get_layer_children with format 'detailed' for positions) and prefer flexbox/grid over absolute positioning.",
+    "4. Export image layers with export_images (layerId/layerPath of this section) and vector layers with export_all_vectors_as_svg, then reference the exported files.",
+    "5. Use preview_group on this section to compare your result with the design.",
+  ].join("\n");
+}
+
+// Prompt: derive a design system from the whole document
+function buildDesignSystemPrompt(psdPath: string): string {
+  const absolutePath = path.resolve(psdPath);
+  const psdInfo = parsePsdFile(absolutePath);
+  const psd = loadPsd(absolutePath, {
+    skipCompositeImageData: true,
+    skipLayerImageData: true,
+    skipThumbnail: true,
+  });
+  const palette = extractAllColors(psd.children || [], documentProfile(psd));
+  const fonts = Array.from(
+    extractAllFonts(psd.children || [], documentProfile(psd)).values(),
+  ).sort((a, b) => a.fontName.localeCompare(b.fontName));
+  const topLevel = psdInfo.layers.map((layer) => ({
+    ...layer,
+    children: undefined,
+  }));
+
+  return [
+    `Extract a design system from ${absolutePath}.`,
+    "",
+    `Document size: ${psdInfo.width}x${psdInfo.height} (${psdInfo.colorMode}, ${psdInfo.bitsPerChannel}-bit${psdInfo.colorProfile ? `, ${psdInfo.colorProfile}` : ""})`,
+    "",
+    "## Top-level layers",
+    "",
+    formatLayerTree(topLevel),
+    "",
+    "## Colors",
+    "",
+    describePalette(palette),
+    "",
+    "## Fonts",
+    "",
+    fonts.length > 0
+      ? fonts
+          .map(
+            (font) =>
+              `- ${font.fontName}: ${font.sizes.join("px, ")}px (${font.layers.length} layer(s))`,
+          )
+          .join("\n")
+      : "(no fonts found)",
+    "",
+    "## Text layers",
+    "",
+    describeTextLayers(getTextLayers(psdInfo.layers)),
+    "",
+    "## Instructions",
+    "",
+    "1. Group near-identical colors and name each token by its role (primary, background, text, border...) based on the layers that use it.",
+    "2. Build a typography scale from the fonts and sizes above and name each step by usage (heading, body, caption...).",
+    "3. Output the tokens as CSS custom properties plus a short table explaining each token and where it is used.",
+    "4. Call out inconsistencies (one-off colors or font sizes) that the designer should confirm.",
+  ].join("\n");
+}
+
+// Create MCP Server
+const server = new Server(
+  {
+    name: "psd-parser",
+    version: "1.0.0",
+  },
+  {
+    capabilities: {
+      tools: {},
+      resources: {},
+      prompts: {},
+    },
+  },
+);
+
+// List available tools
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: "extract_colors",
+        description:
+          "Extract all colors used in the PSD file including text colors, fills, strokes, layer effects (shadows, glows, overlays), and gradients",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            format: {
+              type: "string",
+              enum: ["summary", "detailed", "css"],
+              description:
+                "Output format: 'summary' for unique colors only, 'detailed' for all colors with sources, 'css' for CSS custom properties (default: summary)",
+            },
+            artboard: {
+              type: "string",
+              description:
+                "Optional: Only extract colors from this artboard (partial name match, case-insensitive)",
+            },
+            clusterThreshold: {
+              type: "number",
+              description:
+                "Optional: Merge perceptually similar colors within this CIEDE2000 distance (2-3 catches eyedropper drift, 5+ merges shades) and rank the clusters by usage and area",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "export_layer_image",
+        description:
+          "Export a single image layer by name, layerId or layerPath. Use layerId (or layerIndex) when multiple layers have the same name.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            layerName: {
+              type: "string",
+              description:
+                "Name of the layer to export (partial match, case-insensitive)",
+            },
+            layerIndex: {
+              type: "number",
+              description:
+                "When multiple layers match the name, specify which one (0-based index). Use list_layers first to see the order.",
+            },
+            groupName: {
+              type: "string",
+              description:
+                "Optional: Search only within this group (useful for narrowing down same-named layers)",
+            },
+            outputPath: {
+              type: "string",
+              description:
+                "Full output path including filename (e.g., /path/to/output/hero.png)",
+            },
+            scale: {
+              type: "number",
+              description: "Scale factor (default: 2 for @2x)",
+            },
+            format: {
+              type: "string",
+              enum: ["png", "jpg"],
+              description: "Image format (default: png)",
+            },
+            quality: {
+              type: "number",
+              description: "JPG quality 1-100 (default: 90)",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Stable layer ID (shown as #id in list_layers). Takes precedence over name matching.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Full layer path such as 'Header/Nav/Logo'. Takes precedence over name matching.",
+            },
+          },
+          required: ["path", "outputPath"],
+        },
+      },
+      {
+        name: "export_all_vectors_as_svg",
+        description:
+          "Export all vector/shape layers as SVG files to a specified directory",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            outputDir: {
+              type: "string",
+              description: "Directory to save SVG files",
+            },
+            groupName: {
+              type: "string",
+              description: "Optional: Only export vectors from this group",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Optional: Stable ID of the group (shown as #id in list_layers). Takes precedence over groupName.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Optional: Full path of the group such as 'Header/Nav'. Takes precedence over groupName.",
+            },
+          },
+          required: ["path", "outputDir"],
+        },
+      },
+      {
+        name: "export_images",
+        description:
+          "Export image layers as PNG or JPG files (@2x scale for Retina). Can export from a specific group or all images.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            outputDir: {
+              type: "string",
+              description: "Directory to save image files",
+            },
+            groupName: {
+              type: "string",
+              description: "Optional: Only export images from this group",
+            },
+            artboard: {
+              type: "string",
+              description:
+                "Optional: Only export images from this artboard (partial name match, case-insensitive)",
+            },
+            scale: {
+              type: "number",
+              description: "Scale factor (default: 2 for @2x)",
+            },
+            format: {
+              type: "string",
+              enum: ["png", "jpg"],
+              description:
+                "Image format: 'png' (default, supports transparency) or 'jpg' (smaller file size)",
+            },
+            quality: {
+              type: "number",
+              description:
+                "JPG quality 1-100 (default: 90). Only applies to JPG format.",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Optional: Stable ID of the group (shown as #id in list_layers). Takes precedence over groupName.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Optional: Full path of the group such as 'Header/Nav'. Takes precedence over groupName.",
+            },
+          },
+          required: ["path", "outputDir"],
+        },
+      },
+      {
+        name: "render_composite",
+        description:
+          "Render the flattened document image as PNG or JPG, optionally clipped to a region or a single artboard. Falls back to compositing visible layers when the file was saved without maximized compatibility.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            outputPath: {
+              type: "string",
+              description:
+                "Full output path including filename (e.g., /path/to/output/preview.png)",
+            },
+            region: {
+              type: "object",
+              description:
+                "Optional: Rectangle to render in document pixels ({ left, top, width, height })",
+              properties: {
+                left: { type: "number" },
+                top: { type: "number" },
+                width: { type: "number" },
+                height: { type: "number" },
+              },
+              required: ["left", "top", "width", "height"],
+            },
+            artboard: {
+              type: "string",
+              description:
+                "Optional: Render only this artboard (partial match, case-insensitive)",
+            },
+            scale: {
+              type: "number",
+              description: "Scale factor (default: 1)",
+            },
+            format: {
+              type: "string",
+              enum: ["png", "jpg"],
+              description: "Image format (default: png)",
+            },
+            quality: {
+              type: "number",
+              description: "JPG quality 1-100 (default: 90)",
+            },
+          },
+          required: ["path", "outputPath"],
+        },
+      },
+      {
+        name: "list_slices",
+        description:
+          "List slices defined in the PSD (Save for Web) with their name, bounds, origin and URL/alt text metadata",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            includeAuto: {
+              type: "boolean",
+              description:
+                "Include auto-generated filler slices (default: false)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "export_slices",
+        description:
+          "Export each slice region of the flattened document as PNG or JPG, like Photoshop's Save for Web",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            outputDir: {
+              type: "string",
+              description: "Directory to save image files",
+            },
+            includeAuto: {
+              type: "boolean",
+              description:
+                "Also export auto-generated filler slices (default: false)",
+            },
+            scale: {
+              type: "number",
+              description: "Scale factor (default: 2 for @2x)",
+            },
+            format: {
+              type: "string",
+              enum: ["png", "jpg"],
+              description:
+                "Image format: 'png' (default, supports transparency) or 'jpg' (smaller file size)",
+            },
+            quality: {
+              type: "number",
+              description:
+                "JPG quality 1-100 (default: 90). Only applies to JPG format.",
+            },
+          },
+          required: ["path", "outputDir"],
+        },
+      },
+      {
+        name: "preview_layer",
+        description:
+          "Render a single layer and return it inline as a PNG image so a vision-capable model can see it. Large layers are downscaled to maxSize.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            layerName: {
+              type: "string",
+              description:
+                "Name of the layer to preview (partial match, case-insensitive)",
+            },
+            layerIndex: {
+              type: "number",
+              description:
+                "When multiple layers match the name, specify which one (0-based index)",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Stable layer ID (shown as #id in list_layers). Takes precedence over name matching.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Full layer path such as 'Header/Nav/Logo'. Takes precedence over name matching.",
+            },
+            maxSize: {
+              type: "number",
+              description:
+                "Maximum width/height of the returned image in pixels (default: 1024)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "preview_group",
+        description:
+          "Composite the visible layers of a group and return the result inline as a PNG image. Large groups are downscaled to maxSize.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            groupName: {
+              type: "string",
+              description:
+                "Name of the group to preview (partial match, case-insensitive)",
+            },
+            layerIndex: {
+              type: "number",
+              description:
+                "When multiple groups match the name, specify which one (0-based index)",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Stable ID of the group (shown as #id in list_layers). Takes precedence over groupName.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Full path of the group such as 'Header/Nav'. Takes precedence over groupName.",
+            },
+            maxSize: {
+              type: "number",
+              description:
+                "Maximum width/height of the returned image in pixels (default: 1024)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "get_layer_css",
+        description:
+          "Convert a layer's fill, stroke, layer effects (shadows, glows, overlays), opacity, blend mode and corner radius into ready-to-use CSS",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            layerName: {
+              type: "string",
+              description:
+                "Name of the layer (partial match, case-insensitive)",
+            },
+            layerIndex: {
+              type: "number",
+              description:
+                "When multiple layers match the name, specify which one (0-based index)",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Stable layer ID (shown as #id in list_layers). Takes precedence over name matching.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Full layer path such as 'Header/Nav/Logo'. Takes precedence over name matching.",
+            },
+            includeChildren: {
+              type: "boolean",
+              description:
+                "For groups, also output a rule for every descendant layer (default: false)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "list_vector_layers",
+        description:
+          "List all vector/shape layers in a PSD file that can be exported as SVG",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "export_vector_as_svg",
+        description:
+          "Export a vector/shape layer as SVG. Returns the SVG string or saves to a file.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            layerName: {
+              type: "string",
+              description:
+                "Name of the vector layer to export (or use layerId/layerPath)",
+            },
+            outputPath: {
+              type: "string",
+              description:
+                "Optional: Path to save the SVG file. If not provided, returns the SVG string.",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Stable layer ID (shown as #id in list_layers). Takes precedence over name matching.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Full layer path such as 'Header/Nav/Logo'. Takes precedence over name matching.",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "list_layers",
+        description:
+          "List all layers in a PSD file as a tree structure with their kind (text, image, shape, group, artboard, smart object, fill and adjustment layers). Great for getting an overview of the document structure.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            depth: {
+              type: "number",
+              description:
+                "Maximum depth to display (optional, default: unlimited)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "get_layer_by_name",
+        description:
+          "Find a layer by name, layerId or layerPath and return its detailed information including ID, path, position, size, and text content if applicable",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            name: {
+              type: "string",
+              description:
+                "Layer name to search for (partial match, case-insensitive)",
+            },
+            exact: {
+              type: "boolean",
+              description: "If true, require exact name match (default: false)",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Stable layer ID (shown as #id in list_layers). Takes precedence over name matching.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Full layer path such as 'Header/Nav/Logo'. Takes precedence over name matching.",
+            },
+            relativeToArtboard: {
+              type: "boolean",
+              description:
+                "If true, report bounds relative to the containing artboard instead of the document (default: false)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "get_layer_children",
+        description:
+          "Get the children of a specific group layer. Use this to drill down into nested groups.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            groupName: {
+              type: "string",
+              description:
+                "Name of the group layer to get children from (or use layerId/layerPath)",
+            },
+            format: {
+              type: "string",
+              enum: ["tree", "detailed"],
+              description:
+                "Output format: 'tree' for simple tree view, 'detailed' for full info (default: tree)",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Optional: Stable ID of the group (shown as #id in list_layers). Takes precedence over groupName.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Optional: Full path of the group such as 'Header/Nav'. Takes precedence over groupName.",
+            },
+            relativeToArtboard: {
+              type: "boolean",
+              description:
+                "If true, report bounds relative to the containing artboard instead of the document (default: false)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "infer_layout",
+        description:
+          "Analyze the bounds of a group's children and infer a flex layout: direction (row/column/absolute), wrap, gap, padding relative to the group's background shape, justify/align values, a confidence score and the children that break the pattern",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            groupName: {
+              type: "string",
               description:
-                "Image format: 'png' (default, supports transparency) or 'jpg' (smaller file size)",
+                "Name of the group to analyze (or use layerId/layerPath)",
             },
-            quality: {
+            layerId: {
               type: "number",
               description:
-                "JPG quality 1-100 (default: 90). Only applies to JPG format.",
+                "Optional: Stable ID of the group (shown as #id in list_layers). Takes precedence over groupName.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Optional: Full path of the group such as 'Header/Nav'. Takes precedence over groupName.",
             },
           },
-          required: ["path", "outputDir"],
+          required: ["path"],
         },
       },
       {
-        name: "list_vector_layers",
+        name: "generate_html",
         description:
-          "List all vector/shape layers in a PSD file that can be exported as SVG",
+          "Generate a self-contained HTML/CSS snippet for a group or artboard: text layers become headings/paragraphs with their typography, image layers become <img> references (exported when outputDir is given), shapes become styled divs or inline SVG. Uses flexbox where a layout is detectable and absolute positioning otherwise.",
         inputSchema: {
           type: "object" as const,
           properties: {
@@ -1203,14 +7762,43 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Absolute path to the PSD file",
             },
+            groupName: {
+              type: "string",
+              description:
+                "Name of the group to convert (partial match, case-insensitive)",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Optional: Stable ID of the group (shown as #id in list_layers). Takes precedence over groupName.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Optional: Full path of the group such as 'Header/Nav'. Takes precedence over groupName.",
+            },
+            artboard: {
+              type: "string",
+              description:
+                "Optional: Convert this artboard (partial match, case-insensitive)",
+            },
+            outputDir: {
+              type: "string",
+              description:
+                "Optional: Directory to write index.html and export images to (images/ subfolder). Without it, only the snippet is returned.",
+            },
+            scale: {
+              type: "number",
+              description: "Scale factor for exported images (default: 2)",
+            },
           },
           required: ["path"],
         },
       },
       {
-        name: "export_vector_as_svg",
+        name: "generate_component",
         description:
-          "Export a vector/shape layer as SVG. Returns the SVG string or saves to a file.",
+          "Generate a React, Vue or Svelte component for a group or artboard. Text content becomes props named after the layers, repeated sibling groups become a mapped list, and images/vectors are imported from an assets folder by relative path.",
         inputSchema: {
           type: "object" as const,
           properties: {
@@ -1218,23 +7806,59 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Absolute path to the PSD file",
             },
-            layerName: {
+            groupName: {
               type: "string",
-              description: "Name of the vector layer to export",
+              description:
+                "Name of the group to convert (partial match, case-insensitive)",
             },
-            outputPath: {
+            layerId: {
+              type: "number",
+              description:
+                "Optional: Stable ID of the group (shown as #id in list_layers). Takes precedence over groupName.",
+            },
+            layerPath: {
               type: "string",
               description:
-                "Optional: Path to save the SVG file. If not provided, returns the SVG string.",
+                "Optional: Full path of the group such as 'Header/Nav'. Takes precedence over groupName.",
+            },
+            artboard: {
+              type: "string",
+              description:
+                "Optional: Convert this artboard (partial match, case-insensitive)",
+            },
+            framework: {
+              type: "string",
+              enum: ["react-tsx", "vue-sfc", "svelte"],
+              description: "Target framework (default: react-tsx)",
+            },
+            styling: {
+              type: "string",
+              enum: ["css-modules", "tailwind", "styled-components"],
+              description:
+                "Styling approach (default: css-modules). styled-components requires react-tsx; Svelte uses scoped styles for css-modules.",
+            },
+            componentName: {
+              type: "string",
+              description:
+                "Optional: Component name (default: derived from the layer name)",
+            },
+            outputDir: {
+              type: "string",
+              description:
+                "Optional: Directory to write the component files and export assets to (assets/ subfolder). Without it, only the source is returned.",
+            },
+            scale: {
+              type: "number",
+              description: "Scale factor for exported images (default: 2)",
             },
           },
-          required: ["path", "layerName"],
+          required: ["path"],
         },
       },
       {
-        name: "list_layers",
+        name: "list_artboards",
         description:
-          "List all layers in a PSD file as a tree structure. Great for getting an overview of the document structure.",
+          "List all artboards with their frame (position and size), background and number of layers",
         inputSchema: {
           type: "object" as const,
           properties: {
@@ -1242,19 +7866,34 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Absolute path to the PSD file",
             },
-            depth: {
-              type: "number",
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "get_layout_grid",
+        description:
+          "Get ruler guides and the column grid (columns, gutter, margins) inferred from vertical guides or, without guides, from the left edges of top-level groups. Returns JSON plus a CSS grid container.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            artboard: {
+              type: "string",
               description:
-                "Maximum depth to display (optional, default: unlimited)",
+                "Optional: Infer the grid for this artboard only (partial name match, case-insensitive). Positions are relative to the artboard.",
             },
           },
           required: ["path"],
         },
       },
       {
-        name: "get_layer_by_name",
+        name: "parse_psd",
         description:
-          "Find a layer by name and return its detailed information including position, size, and text content if applicable",
+          "Parse a PSD file and return document info with all layers including text content, sizes, positions, and hierarchy",
         inputSchema: {
           type: "object" as const,
           properties: {
@@ -1262,23 +7901,44 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Absolute path to the PSD file",
             },
-            name: {
+            relativeToArtboard: {
+              type: "boolean",
+              description:
+                "If true, report bounds relative to the containing artboard instead of the document (default: false)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "get_text_layers",
+        description:
+          "Get only text layers from a PSD file with their content, font info, positions, per-run character styles (mixed fonts, weights, colors) and paragraph styles (alignment, indents, spacing)",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            artboard: {
               type: "string",
               description:
-                "Layer name to search for (partial match, case-insensitive)",
+                "Optional: Only return text layers from this artboard (partial name match, case-insensitive)",
             },
-            exact: {
+            relativeToArtboard: {
               type: "boolean",
-              description: "If true, require exact name match (default: false)",
+              description:
+                "If true, report bounds relative to the containing artboard instead of the document (default: false)",
             },
           },
-          required: ["path", "name"],
+          required: ["path"],
         },
       },
       {
-        name: "get_layer_children",
+        name: "list_fonts",
         description:
-          "Get the children of a specific group layer. Use this to drill down into nested groups.",
+          "List all fonts used in a PSD file with sizes, styles, colors, and which layers use them",
         inputSchema: {
           type: "object" as const,
           properties: {
@@ -1286,24 +7946,194 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Absolute path to the PSD file",
             },
-            groupName: {
+            format: {
+              type: "string",
+              enum: ["summary", "detailed", "css"],
+              description:
+                "Output format: 'summary' for font list, 'detailed' for full info, 'css' for @font-face template (default: summary)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "extract_text_styles",
+        description:
+          "Group text layers into distinct named text styles (family, weight, size, unitless line-height, letter-spacing in em, text-transform, color) with usage counts. Font sizes are converted from points through the document resolution.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            artboard: {
               type: "string",
-              description: "Name of the group layer to get children from",
+              description:
+                "Optional: Only include text in this artboard (partial name match, case-insensitive)",
             },
             format: {
               type: "string",
-              enum: ["tree", "detailed"],
+              enum: ["summary", "css", "json"],
               description:
-                "Output format: 'tree' for simple tree view, 'detailed' for full info (default: tree)",
+                "Output format: 'summary' for a style list, 'css' for one class per style, 'json' for the style data (default: summary)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "extract_spacing",
+        description:
+          "Measure gaps between sibling layers and paddings inside background shapes across the document, detect the base unit (4px or 8px) and output a spacing scale with the values that do not fit it",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            artboard: {
+              type: "string",
+              description:
+                "Optional: Only measure this artboard (partial name match, case-insensitive)",
+            },
+            format: {
+              type: "string",
+              enum: ["summary", "css", "json"],
+              description:
+                "Output format: 'summary' for the scale and outliers, 'css' for custom properties, 'json' for the scale with its histogram (default: summary)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "check_contrast",
+        description:
+          "Audit text contrast: for every visible text layer, find the background underneath (solid fill, artboard or sampled composite pixels) and report the WCAG 2.x ratio with AA/AAA pass/fail and the APCA Lc value for its font size and weight",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            level: {
+              type: "string",
+              enum: ["AA", "AAA"],
+              description:
+                "WCAG level that text must meet to pass (default: AA)",
+            },
+            artboard: {
+              type: "string",
+              description:
+                "Optional: Only check text in this artboard (partial name match, case-insensitive)",
+            },
+            format: {
+              type: "string",
+              enum: ["summary", "json"],
+              description:
+                "Output format: 'summary' lists failures, 'json' returns every result (default: summary)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "generate_tailwind_theme",
+        description:
+          "Generate a Tailwind theme from a PSD: colors, gradients, font families, font sizes, spacing, corner radii and shadows, named after the layers they come from",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            version: {
+              type: "string",
+              enum: ["v3", "v4"],
+              description:
+                "'v3' for a tailwind.config.js theme.extend object, 'v4' for an @theme CSS block (default: v3)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "export_design_tokens",
+        description:
+          "Export design tokens in the W3C Design Tokens Community Group (DTCG) format: colors, gradients, typography, spacing, corner radii and shadows with $type/$value entries and the source layers in $extensions",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            format: {
+              type: "string",
+              enum: ["dtcg"],
+              description: "Token format (default: dtcg)",
+            },
+            outputPath: {
+              type: "string",
+              description:
+                "Optional file path to write the tokens JSON to (e.g. ./tokens/design.tokens.json)",
+            },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "generate_platform_tokens",
+        description:
+          "Generate native design token files from a PSD's colors, text styles, spacing and corner radii: Swift (SwiftUI and UIKit colors in their own namespace), Android resources (colors.xml, dimens.xml, text appearance styles), Jetpack Compose (Color, TextStyle) or Flutter (ThemeData, TextTheme)",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
+            },
+            platform: {
+              type: "string",
+              enum: ["swift", "android", "compose", "flutter"],
+              description: "Target platform",
+            },
+            packageName: {
+              type: "string",
+              description:
+                "Kotlin package for Compose output (default: com.example.ui.theme)",
+            },
+            outputDir: {
+              type: "string",
+              description: "Optional directory to write the generated files to",
+            },
+          },
+          required: ["path", "platform"],
+        },
+      },
+      {
+        name: "list_smart_objects",
+        description:
+          "List all Smart Object layers in a PSD file. Shows their type (vector/raster/imageStack), linked file info, and whether embedded data is available.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: {
+              type: "string",
+              description: "Absolute path to the PSD file",
             },
           },
-          required: ["path", "groupName"],
+          required: ["path"],
         },
       },
       {
-        name: "parse_psd",
+        name: "get_smart_object_content",
         description:
-          "Parse a PSD file and return document info with all layers including text content, sizes, positions, and hierarchy",
+          "Get the content of an embedded Smart Object. If the embedded file is a PSD, it will be parsed recursively to show its layers. Supports PSD, PSB, AI, and other embedded formats.",
         inputSchema: {
           type: "object" as const,
           properties: {
@@ -1311,273 +8141,1466 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Absolute path to the PSD file",
             },
-          },
-          required: ["path"],
-        },
-      },
-      {
-        name: "get_text_layers",
-        description:
-          "Get only text layers from a PSD file with their content, font info, and positions",
-        inputSchema: {
-          type: "object" as const,
-          properties: {
-            path: {
-              type: "string",
-              description: "Absolute path to the PSD file",
+            layerName: {
+              type: "string",
+              description:
+                "Name of the Smart Object layer to read (partial match, case-insensitive)",
+            },
+            layerIndex: {
+              type: "number",
+              description:
+                "When multiple Smart Objects match the name, specify which one (0-based index)",
+            },
+            outputPath: {
+              type: "string",
+              description:
+                "Optional: Save the embedded file data to this path. If not provided, embedded PSD files are parsed and layers are returned.",
+            },
+            layerId: {
+              type: "number",
+              description:
+                "Stable layer ID (shown as #id in list_layers). Takes precedence over name matching.",
+            },
+            layerPath: {
+              type: "string",
+              description:
+                "Full layer path such as 'Header/Nav/Logo'. Takes precedence over name matching.",
+            },
+          },
+          required: ["path"],
+        },
+      },
+    ],
+  };
+});
+
+// Handle tool calls
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  try {
+    switch (name) {
+      case "extract_colors": {
+        const {
+          path: filePath,
+          format = "summary",
+          artboard,
+          clusterThreshold,
+        } = args as {
+          path: string;
+          format?: "summary" | "detailed" | "css";
+          artboard?: string;
+          clusterThreshold?: number;
+        };
+        const absolutePath = path.resolve(filePath);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
+
+        const rootLayers = artboard
+          ? [findArtboard(psd.children || [], artboard)]
+          : psd.children || [];
+        const palette = extractAllColors(rootLayers, documentProfile(psd));
+
+        if (
+          palette.uniqueColors.length === 0 &&
+          palette.gradients.length === 0
+        ) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No colors found in this PSD file.",
+              },
+            ],
+          };
+        }
+
+        // Colors that sRGB cannot show, with their Display P3 value
+        const wideGamut = new Map(
+          palette.solidColors
+            .filter((color) => color.displayP3)
+            .map((color) => [color.hex, color.displayP3]),
+        );
+        const gamutNote = (hex: string) =>
+          wideGamut.has(hex) ? ` (outside sRGB: ${wideGamut.get(hex)})` : "";
+
+        let output: string;
+
+        if (clusterThreshold !== undefined) {
+          if (!(clusterThreshold >= 0)) {
+            throw new Error("clusterThreshold must be a non-negative number");
+          }
+          const clusters = clusterColors(palette.solidColors, clusterThreshold);
+          const merged = (cluster: ColorCluster) =>
+            cluster.members
+              .slice(1)
+              .map((m) => `${m.hex} (ΔE ${m.deltaE})`)
+              .join(", ");
+
+          if (format === "css") {
+            const cssLines = [
+              `/* ${palette.uniqueColors.length} colors clustered into ${clusters.length} at ΔE2000 ≤ ${clusterThreshold} */`,
+              ":root {",
+            ];
+            clusters.forEach((cluster, i) => {
+              const note = [
+                ...(cluster.members.length > 1 ? [merged(cluster)] : []),
+                ...(wideGamut.has(cluster.hex)
+                  ? [`outside sRGB: ${wideGamut.get(cluster.hex)}`]
+                  : []),
+              ].join("; ");
+              cssLines.push(
+                `  --color-${i + 1}: ${cluster.hex};${note ? ` /* ${note} */` : ""}`,
+              );
+            });
+            cssLines.push("}");
+            output = cssLines.join("\n");
+          } else if (format === "detailed") {
+            const lines = [
+              `## Color Clusters (ΔE2000 ≤ ${clusterThreshold})\n`,
+            ];
+            for (const cluster of clusters) {
+              lines.push(`**${cluster.hex}**${gamutNote(cluster.hex)}`);
+              lines.push(
+                `  Uses: ${cluster.count}, area: ${Math.round(cluster.area)}px²`,
+              );
+              if (cluster.members.length > 1) {
+                lines.push(`  Merged: ${merged(cluster)}`);
+              }
+              lines.push(`  Sources: ${cluster.sources.join(", ")}`);
+              lines.push(
+                `  Layers: ${cluster.layers.slice(0, 3).join(", ")}${cluster.layers.length > 3 ? ` (+${cluster.layers.length - 3} more)` : ""}`,
+              );
+              lines.push("");
+            }
+            output = lines.join("\n");
+          } else {
+            output = [
+              `Clustered ${palette.uniqueColors.length} unique color(s) into ${clusters.length} (ΔE2000 ≤ ${clusterThreshold}), ranked by usage`,
+              "",
+              "## Colors",
+              ...clusters.map(
+                (cluster) =>
+                  `- ${cluster.hex} (${cluster.count} use${cluster.count === 1 ? "" : "s"})${gamutNote(cluster.hex)}${cluster.members.length > 1 ? ` ← ${merged(cluster)}` : ""}`,
+              ),
+              ...(palette.gradients.length > 0
+                ? [
+                    "",
+                    "## Gradients",
+                    ...palette.gradients.map(
+                      (grad) =>
+                        `- ${grad.name || "Unnamed"}: ${grad.colors.join(" → ")}`,
+                    ),
+                  ]
+                : []),
+            ].join("\n");
+          }
+        } else if (format === "css") {
+          // Generate CSS custom properties
+          const cssLines = [":root {"];
+          palette.uniqueColors.forEach((hex, i) => {
+            const note = wideGamut.has(hex)
+              ? ` /* outside sRGB: ${wideGamut.get(hex)} */`
+              : "";
+            cssLines.push(`  --color-${i + 1}: ${hex};${note}`);
+          });
+          cssLines.push("");
+          palette.gradients.forEach((grad, i) => {
+            const gradientCss = `linear-gradient(90deg, ${grad.colors.join(", ")})`;
+            cssLines.push(`  --gradient-${i + 1}: ${gradientCss};`);
+          });
+          cssLines.push("}");
+          output = cssLines.join("\n");
+        } else if (format === "detailed") {
+          // Detailed output with sources
+          const lines = ["## Solid Colors\n"];
+
+          // Group by color
+          const colorMap = new Map<
+            string,
+            { sources: string[]; layers: string[] }
+          >();
+          for (const color of palette.solidColors) {
+            if (!colorMap.has(color.hex)) {
+              colorMap.set(color.hex, { sources: [], layers: [] });
+            }
+            const entry = colorMap.get(color.hex)!;
+            if (!entry.sources.includes(color.source)) {
+              entry.sources.push(color.source);
+            }
+            if (!entry.layers.includes(color.layerName)) {
+              entry.layers.push(color.layerName);
+            }
+          }
+
+          for (const [hex, info] of colorMap) {
+            lines.push(`**${hex}**${gamutNote(hex)}`);
+            lines.push(`  Sources: ${info.sources.join(", ")}`);
+            lines.push(
+              `  Layers: ${info.layers.slice(0, 3).join(", ")}${info.layers.length > 3 ? ` (+${info.layers.length - 3} more)` : ""}`,
+            );
+            lines.push("");
+          }
+
+          if (palette.gradients.length > 0) {
+            lines.push("\n## Gradients\n");
+            for (const grad of palette.gradients) {
+              lines.push(`**${grad.name || "Unnamed"}** (${grad.source})`);
+              lines.push(`  Colors: ${grad.colors.join(" → ")}`);
+              lines.push(`  Layer: ${grad.layerName}`);
+              lines.push("");
+            }
+          }
+
+          output = lines.join("\n");
+        } else {
+          // Summary format
+          const lines = [
+            `Found ${palette.uniqueColors.length} unique color(s) and ${palette.gradients.length} gradient(s)`,
+            "",
+            "## Colors",
+            ...palette.uniqueColors.map((hex) => `- ${hex}${gamutNote(hex)}`),
+          ];
+
+          if (palette.gradients.length > 0) {
+            lines.push("");
+            lines.push("## Gradients");
+            for (const grad of palette.gradients) {
+              lines.push(
+                `- ${grad.name || "Unnamed"}: ${grad.colors.join(" → ")}`,
+              );
+            }
+          }
+
+          output = lines.join("\n");
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: output,
+            },
+          ],
+        };
+      }
+
+      case "export_layer_image": {
+        const {
+          path: filePath,
+          layerName,
+          layerIndex,
+          layerId,
+          layerPath,
+          groupName,
+          outputPath: outPath,
+          scale = 2,
+          format = "png",
+          quality = 90,
+        } = args as {
+          path: string;
+          layerName?: string;
+          layerIndex?: number;
+          layerId?: number;
+          layerPath?: string;
+          groupName?: string;
+          outputPath: string;
+          scale?: number;
+          format?: "png" | "jpg";
+          quality?: number;
+        };
+        const absolutePath = path.resolve(filePath);
+        const absoluteOutputPath = path.resolve(outPath);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: false,
+          skipThumbnail: true,
+        });
+
+        let targetLayer: Layer;
+        if (hasLayerSelector({ layerId, layerPath })) {
+          targetLayer = selectLayer(psd.children || [], { layerId, layerPath });
+        } else {
+          if (!layerName) {
+            throw new Error("Specify layerName, layerId or layerPath");
+          }
+
+          // Get image layers (optionally from specific group)
+          let allImages: Layer[];
+          if (groupName) {
+            allImages = getImageLayersFromGroup(psd.children || [], groupName);
+          } else {
+            allImages = getAllImageLayers(psd.children || []);
+          }
+
+          // Find matching layers
+          const matchingLayers = allImages.filter((l) =>
+            l.name?.toLowerCase().includes(layerName.toLowerCase()),
+          );
+
+          if (matchingLayers.length === 0) {
+            const suggestions = allImages
+              .slice(0, 5)
+              .map((l) => l.name)
+              .join(", ");
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Layer "${layerName}" not found${groupName ? ` in group "${groupName}"` : ""}.\n\nAvailable image layers: ${suggestions || "none"}`,
+                },
+              ],
+            };
+          }
+
+          // If multiple matches and no index specified, show options
+          if (matchingLayers.length > 1 && layerIndex === undefined) {
+            const pathMap = buildLayerPathMap(psd.children || []);
+            const options = matchingLayers
+              .map(
+                (l, i) =>
+                  `  ${i}: "${l.name}" (id: ${l.id ?? "none"}, path: ${pathMap.get(l)})`,
+              )
+              .join("\n");
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Found ${matchingLayers.length} layers matching "${layerName}". Please specify layerIndex or layerId:\n\n${options}\n\nExample: layerIndex: 0 for the first one`,
+                },
+              ],
+            };
+          }
+
+          // Select the target layer
+          const targetIndex = layerIndex ?? 0;
+          if (targetIndex >= matchingLayers.length) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `layerIndex ${targetIndex} is out of range. Only ${matchingLayers.length} layer(s) found.`,
+                },
+              ],
+            };
+          }
+          targetLayer = matchingLayers[targetIndex];
+        }
+
+        // Create output directory if needed
+        const outputDir = path.dirname(absoluteOutputPath);
+        if (!fs.existsSync(outputDir)) {
+          fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        const imageBuffer = layerToImageBuffer(
+          targetLayer,
+          documentProfile(psd),
+          scale,
+          format,
+          quality,
+        );
+        if (!imageBuffer) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Layer "${targetLayer.name}" has no image data.`,
+              },
+            ],
+          };
+        }
+
+        fs.writeFileSync(absoluteOutputPath, imageBuffer);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Exported "${targetLayer.name}" to ${absoluteOutputPath} (${format.toUpperCase()}, ${scale}x)`,
+            },
+          ],
+        };
+      }
+
+      case "export_all_vectors_as_svg": {
+        const {
+          path: filePath,
+          outputDir,
+          groupName,
+          layerId,
+          layerPath,
+        } = args as {
+          path: string;
+          outputDir: string;
+          groupName?: string;
+          layerId?: number;
+          layerPath?: string;
+        };
+        const absolutePath = path.resolve(filePath);
+        const absoluteOutputDir = path.resolve(outputDir);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        // Create output directory if it doesn't exist
+        if (!fs.existsSync(absoluteOutputDir)) {
+          fs.mkdirSync(absoluteOutputDir, { recursive: true });
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
+
+        let vectorLayers: Layer[];
+        if (hasLayerSelector({ layerId, layerPath })) {
+          const group = selectLayer(psd.children || [], { layerId, layerPath });
+          vectorLayers = getAllVectorLayers(group.children || []);
+        } else if (groupName) {
+          // Find group and get vectors from it
+          const findGroup = (layers: Layer[]): Layer | null => {
+            for (const layer of layers) {
+              if (
+                layer.name?.toLowerCase().includes(groupName.toLowerCase()) &&
+                layer.children
+              ) {
+                return layer;
+              }
+              if (layer.children) {
+                const found = findGroup(layer.children);
+                if (found) return found;
+              }
+            }
+            return null;
+          };
+          const group = findGroup(psd.children || []);
+          vectorLayers = group ? getAllVectorLayers(group.children || []) : [];
+        } else {
+          vectorLayers = getAllVectorLayers(psd.children || []);
+        }
+
+        if (vectorLayers.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  groupName || hasLayerSelector({ layerId, layerPath })
+                    ? `No vector layers found in group "${layerPath ?? layerId ?? groupName}".`
+                    : "No vector layers found in this PSD file.",
+              },
+            ],
+          };
+        }
+
+        const exported: string[] = [];
+
+        // Track filenames to avoid duplicates
+        const usedFilenames = new Map<string, number>();
+
+        for (const layer of vectorLayers) {
+          try {
+            const svg = vectorLayerToSvg(
+              layer,
+              psd.width,
+              psd.height,
+              documentProfile(psd),
+            );
+            const finalName = uniqueFilename(
+              layer.name || "unnamed",
+              usedFilenames,
+            );
+
+            const filename = finalName + ".svg";
+            const outputPath = path.join(absoluteOutputDir, filename);
+            fs.writeFileSync(outputPath, svg, "utf-8");
+            exported.push(filename);
+          } catch (e) {
+            // Skip layers that fail to export
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Exported ${exported.length} SVG file(s) to ${absoluteOutputDir}:\n\n${exported.map((f) => `- ${f}`).join("\n")}`,
             },
-          },
-          required: ["path"],
-        },
-      },
-      {
-        name: "list_fonts",
-        description:
-          "List all fonts used in a PSD file with sizes, styles, colors, and which layers use them",
-        inputSchema: {
-          type: "object" as const,
-          properties: {
-            path: {
-              type: "string",
-              description: "Absolute path to the PSD file",
+          ],
+        };
+      }
+
+      case "export_images": {
+        const {
+          path: filePath,
+          outputDir,
+          groupName,
+          layerId,
+          layerPath,
+          artboard,
+          scale = 2,
+          format = "png",
+          quality = 90,
+        } = args as {
+          path: string;
+          outputDir: string;
+          groupName?: string;
+          layerId?: number;
+          layerPath?: string;
+          artboard?: string;
+          scale?: number;
+          format?: "png" | "jpg";
+          quality?: number;
+        };
+        const absolutePath = path.resolve(filePath);
+        const absoluteOutputDir = path.resolve(outputDir);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        // Create output directory if it doesn't exist
+        if (!fs.existsSync(absoluteOutputDir)) {
+          fs.mkdirSync(absoluteOutputDir, { recursive: true });
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: false, // Need image data for export
+          skipThumbnail: true,
+        });
+
+        // Optionally scope to a single artboard
+        const rootLayers = artboard
+          ? findArtboard(psd.children || [], artboard).children || []
+          : psd.children || [];
+
+        let imageLayers: Layer[];
+        if (hasLayerSelector({ layerId, layerPath })) {
+          const group = selectLayer(psd.children || [], { layerId, layerPath });
+          imageLayers = getAllImageLayers(group.children || []);
+        } else if (groupName) {
+          imageLayers = getImageLayersFromGroup(rootLayers, groupName);
+        } else {
+          imageLayers = getAllImageLayers(rootLayers);
+        }
+
+        if (imageLayers.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  groupName || hasLayerSelector({ layerId, layerPath })
+                    ? `No image layers found in group "${layerPath ?? layerId ?? groupName}".`
+                    : "No image layers found in this PSD file.",
+              },
+            ],
+          };
+        }
+
+        const exported: string[] = [];
+        const suffix = scale !== 1 ? `@${scale}x` : "";
+        const ext = format === "jpg" ? ".jpg" : ".png";
+
+        // Track filenames to avoid duplicates
+        const usedFilenames = new Map<string, number>();
+
+        for (const layer of imageLayers) {
+          try {
+            const imageBuffer = layerToImageBuffer(
+              layer,
+              documentProfile(psd),
+              scale,
+              format,
+              quality,
+            );
+            if (imageBuffer) {
+              const finalName = uniqueFilename(
+                layer.name || "unnamed",
+                usedFilenames,
+              );
+
+              const filename = finalName + suffix + ext;
+              const outputPath = path.join(absoluteOutputDir, filename);
+              fs.writeFileSync(outputPath, imageBuffer);
+              exported.push(filename);
+            }
+          } catch (e) {
+            // Skip layers that fail to export
+          }
+        }
+
+        const formatInfo =
+          format === "jpg" ? `JPG (quality: ${quality})` : "PNG";
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Exported ${exported.length} ${formatInfo} file(s) at ${scale}x to ${absoluteOutputDir}:\n\n${exported.map((f) => `- ${f}`).join("\n")}`,
             },
-            format: {
-              type: "string",
-              enum: ["summary", "detailed", "css"],
-              description:
-                "Output format: 'summary' for font list, 'detailed' for full info, 'css' for @font-face template (default: summary)",
+          ],
+        };
+      }
+
+      case "render_composite": {
+        const {
+          path: filePath,
+          outputPath: outPath,
+          region,
+          artboard,
+          scale = 1,
+          format = "png",
+          quality = 90,
+        } = args as {
+          path: string;
+          outputPath: string;
+          region?: PixelRect;
+          artboard?: string;
+          scale?: number;
+          format?: "png" | "jpg";
+          quality?: number;
+        };
+        const absolutePath = path.resolve(filePath);
+        const absoluteOutputPath = path.resolve(outPath);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const { psd, canvas, source } = loadCompositeCanvas(absolutePath);
+
+        let rect: PixelRect = {
+          left: 0,
+          top: 0,
+          width: psd.width,
+          height: psd.height,
+        };
+        let label = "document";
+
+        if (artboard) {
+          const match = findArtboard(psd.children || [], artboard);
+          rect = artboardRect(match);
+          label = `artboard "${match.name}"`;
+        }
+
+        if (region) {
+          // Region is relative to the artboard when both are given
+          rect = {
+            left: rect.left + region.left,
+            top: rect.top + region.top,
+            width: region.width,
+            height: region.height,
+          };
+          label = `region ${region.width}x${region.height} of ${label}`;
+        }
+
+        rect = clampRect(rect, psd.width, psd.height);
+        if (rect.width === 0 || rect.height === 0) {
+          throw new Error("Requested region lies outside the document");
+        }
+
+        const imageBuffer = canvasToImageBuffer(
+          canvas,
+          documentProfile(psd),
+          scale,
+          format,
+          quality,
+          rect,
+        );
+
+        // Create output directory if needed
+        const outputDir = path.dirname(absoluteOutputPath);
+        if (!fs.existsSync(outputDir)) {
+          fs.mkdirSync(outputDir, { recursive: true });
+        }
+        fs.writeFileSync(absoluteOutputPath, imageBuffer);
+
+        const sourceNote =
+          source === "composited"
+            ? "\n\nNote: the file has no merged image (saved without maximize compatibility), so visible layers were composited. Masks and some layer effects are not applied."
+            : "";
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Rendered ${label} (${rect.left},${rect.top} ${rect.width}x${rect.height}) to ${absoluteOutputPath} (${format.toUpperCase()}, ${scale}x)${sourceNote}`,
             },
-          },
-          required: ["path"],
-        },
-      },
-      {
-        name: "list_smart_objects",
-        description:
-          "List all Smart Object layers in a PSD file. Shows their type (vector/raster/imageStack), linked file info, and whether embedded data is available.",
-        inputSchema: {
-          type: "object" as const,
-          properties: {
-            path: {
-              type: "string",
-              description: "Absolute path to the PSD file",
+          ],
+        };
+      }
+
+      case "list_slices": {
+        const { path: filePath, includeAuto = false } = args as {
+          path: string;
+          includeAuto?: boolean;
+        };
+        const absolutePath = path.resolve(filePath);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
+        const slices = extractSlices(psd).filter(
+          (slice) => includeAuto || slice.origin !== "autoGenerated",
+        );
+
+        if (slices.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No slices found in this PSD file.",
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  documentSize: { width: psd.width, height: psd.height },
+                  slices,
+                },
+                null,
+                2,
+              ),
             },
-          },
-          required: ["path"],
-        },
-      },
-      {
-        name: "get_smart_object_content",
-        description:
-          "Get the content of an embedded Smart Object. If the embedded file is a PSD, it will be parsed recursively to show its layers. Supports PSD, PSB, AI, and other embedded formats.",
-        inputSchema: {
-          type: "object" as const,
-          properties: {
-            path: {
-              type: "string",
-              description: "Absolute path to the PSD file",
+          ],
+        };
+      }
+
+      case "export_slices": {
+        const {
+          path: filePath,
+          outputDir,
+          includeAuto = false,
+          scale = 2,
+          format = "png",
+          quality = 90,
+        } = args as {
+          path: string;
+          outputDir: string;
+          includeAuto?: boolean;
+          scale?: number;
+          format?: "png" | "jpg";
+          quality?: number;
+        };
+        const absolutePath = path.resolve(filePath);
+        const absoluteOutputDir = path.resolve(outputDir);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const { psd, canvas, source } = loadCompositeCanvas(absolutePath);
+        const slices = extractSlices(psd).filter(
+          (slice) =>
+            slice.type === "image" &&
+            (includeAuto || slice.origin !== "autoGenerated"),
+        );
+
+        if (slices.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No image slices found in this PSD file.",
+              },
+            ],
+          };
+        }
+
+        // Create output directory if it doesn't exist
+        if (!fs.existsSync(absoluteOutputDir)) {
+          fs.mkdirSync(absoluteOutputDir, { recursive: true });
+        }
+
+        const exported: string[] = [];
+        const suffix = scale !== 1 ? `@${scale}x` : "";
+        const ext = format === "jpg" ? ".jpg" : ".png";
+
+        // Track filenames to avoid duplicates
+        const usedFilenames = new Map<string, number>();
+
+        for (const slice of slices) {
+          const rect = clampRect(slice.bounds, psd.width, psd.height);
+          if (rect.width === 0 || rect.height === 0) continue;
+
+          const imageBuffer = canvasToImageBuffer(
+            canvas,
+            documentProfile(psd),
+            scale,
+            format,
+            quality,
+            rect,
+          );
+          const filename =
+            uniqueFilename(slice.name, usedFilenames) + suffix + ext;
+          fs.writeFileSync(path.join(absoluteOutputDir, filename), imageBuffer);
+          exported.push(
+            `${filename} (${rect.left},${rect.top} ${rect.width}x${rect.height})`,
+          );
+        }
+
+        const formatInfo =
+          format === "jpg" ? `JPG (quality: ${quality})` : "PNG";
+        const sourceNote =
+          source === "composited"
+            ? "\n\nNote: the file has no merged image (saved without maximize compatibility), so visible layers were composited. Masks and some layer effects are not applied."
+            : "";
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Exported ${exported.length} ${formatInfo} slice(s) at ${scale}x to ${absoluteOutputDir}:\n\n${exported.map((f) => `- ${f}`).join("\n")}${sourceNote}`,
             },
-            layerName: {
-              type: "string",
-              description:
-                "Name of the Smart Object layer to read (partial match, case-insensitive)",
+          ],
+        };
+      }
+
+      case "preview_layer":
+      case "preview_group": {
+        const {
+          path: filePath,
+          layerName,
+          groupName,
+          layerIndex,
+          layerId,
+          layerPath,
+          maxSize = 1024,
+        } = args as {
+          path: string;
+          layerName?: string;
+          groupName?: string;
+          layerIndex?: number;
+          layerId?: number;
+          layerPath?: string;
+          maxSize?: number;
+        };
+        const isGroup = name === "preview_group";
+        const searchName = isGroup ? groupName : layerName;
+        const absolutePath = path.resolve(filePath);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: false,
+          skipThumbnail: true,
+        });
+        const pathMap = buildLayerPathMap(psd.children || []);
+
+        let targetLayer: Layer;
+        if (hasLayerSelector({ layerId, layerPath })) {
+          targetLayer = selectLayer(psd.children || [], { layerId, layerPath });
+        } else {
+          if (!searchName) {
+            throw new Error(
+              `Specify ${isGroup ? "groupName" : "layerName"}, layerId or layerPath`,
+            );
+          }
+
+          const matchingLayers = [...pathMap.keys()].filter(
+            (l) =>
+              (!isGroup || !!l.children) &&
+              l.name?.toLowerCase().includes(searchName.toLowerCase()),
+          );
+
+          if (matchingLayers.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `${isGroup ? "Group" : "Layer"} "${searchName}" not found.`,
+                },
+              ],
+            };
+          }
+
+          // If multiple matches and no index specified, show options
+          if (matchingLayers.length > 1 && layerIndex === undefined) {
+            const options = matchingLayers
+              .map(
+                (l, i) =>
+                  `  ${i}: "${l.name}" (id: ${l.id ?? "none"}, path: ${pathMap.get(l)})`,
+              )
+              .join("\n");
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Found ${matchingLayers.length} ${isGroup ? "groups" : "layers"} matching "${searchName}". Please specify layerIndex or layerId:\n\n${options}`,
+                },
+              ],
+            };
+          }
+
+          const targetIndex = layerIndex ?? 0;
+          if (targetIndex >= matchingLayers.length) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `layerIndex ${targetIndex} is out of range. Only ${matchingLayers.length} match(es) found.`,
+                },
+              ],
+            };
+          }
+          targetLayer = matchingLayers[targetIndex];
+        }
+
+        if (isGroup && !targetLayer.children) {
+          throw new Error(`Layer "${targetLayer.name}" is not a group`);
+        }
+
+        const preview = renderLayerPreview(
+          targetLayer,
+          psd.width,
+          psd.height,
+          maxSize,
+          documentProfile(psd),
+        );
+        if (!preview) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Layer "${targetLayer.name}" has no visible image data.`,
+              },
+            ],
+          };
+        }
+
+        const { rect, scale } = preview;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `${pathMap.get(targetLayer)} (id: ${targetLayer.id ?? "none"}) at ${rect.left},${rect.top} ${rect.width}x${rect.height}${scale < 1 ? `, downscaled to ${Math.round(scale * 100)}%` : ""}`,
             },
-            layerIndex: {
-              type: "number",
-              description:
-                "When multiple Smart Objects match the name, specify which one (0-based index)",
+            {
+              type: "image" as const,
+              data: preview.buffer.toString("base64"),
+              mimeType: "image/png",
             },
-            outputPath: {
-              type: "string",
-              description:
-                "Optional: Save the embedded file data to this path. If not provided, embedded PSD files are parsed and layers are returned.",
+          ],
+        };
+      }
+
+      case "get_layer_css": {
+        const {
+          path: filePath,
+          layerName,
+          layerIndex,
+          layerId,
+          layerPath,
+          includeChildren = false,
+        } = args as {
+          path: string;
+          layerName?: string;
+          layerIndex?: number;
+          layerId?: number;
+          layerPath?: string;
+          includeChildren?: boolean;
+        };
+        const absolutePath = path.resolve(filePath);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
+        const globalAngle = psd.imageResources?.globalAngle ?? 120;
+
+        const targetLayer = resolveLayer(psd.children || [], {
+          layerName,
+          layerIndex,
+          layerId,
+          layerPath,
+        });
+
+        const rules: string[] = [];
+        function addRule(layer: Layer, selector: string) {
+          const { properties, notes } = layerToCss(
+            layer,
+            documentProfile(psd),
+            globalAngle,
+          );
+          if (properties.length > 0 || notes.length > 0) {
+            rules.push(formatCssRule(selector, properties, notes));
+          }
+          if (includeChildren && layer.children) {
+            for (const child of layer.children) {
+              if (child.hidden) continue;
+              addRule(child, `${selector} .${cssClassName(child.name || "")}`);
+            }
+          }
+        }
+        addRule(targetLayer, `.${cssClassName(targetLayer.name || "")}`);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                rules.length > 0
+                  ? rules.join("\n\n")
+                  : `Layer "${targetLayer.name}" has no visual properties to convert.`,
             },
-          },
-          required: ["path", "layerName"],
-        },
-      },
-    ],
-  };
-});
+          ],
+        };
+      }
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+      case "generate_html": {
+        const {
+          path: filePath,
+          groupName,
+          layerId,
+          layerPath,
+          artboard,
+          outputDir,
+          scale = 2,
+        } = args as {
+          path: string;
+          groupName?: string;
+          layerId?: number;
+          layerPath?: string;
+          artboard?: string;
+          outputDir?: string;
+          scale?: number;
+        };
+        const absolutePath = path.resolve(filePath);
 
-  try {
-    switch (name) {
-      case "extract_colors": {
-        const { path: filePath, format = "summary" } = args as {
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        // Pixel data is only needed when images are exported
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: !outputDir,
+          skipThumbnail: true,
+        });
+
+        const target = artboard
+          ? findArtboard(psd.children || [], artboard)
+          : resolveLayer(psd.children || [], {
+              layerName: groupName,
+              layerId,
+              layerPath,
+            });
+        const { info, markup, ctx } = buildLayerMarkup(
+          psd,
+          target,
+          scale,
+          "images",
+        );
+        const html = markupToHtmlDocument(markup, info.name);
+
+        const notes: string[] = [];
+        if (outputDir) {
+          const absoluteOutputDir = path.resolve(outputDir);
+          const imageDir = path.join(absoluteOutputDir, ctx.imageDir);
+          if (!fs.existsSync(imageDir)) {
+            fs.mkdirSync(imageDir, { recursive: true });
+          }
+
+          const exportedImages = writeMarkupImages(ctx, imageDir);
+
+          const htmlPath = path.join(absoluteOutputDir, "index.html");
+          fs.writeFileSync(htmlPath, html, "utf-8");
+          notes.push(
+            `Wrote ${htmlPath} and ${exportedImages} image(s) to ${imageDir}`,
+          );
+        } else if (ctx.images.length > 0) {
+          notes.push(
+            `References ${ctx.images.length} image(s) under ${ctx.imageDir}/. Pass outputDir to export them.`,
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `${notes.length > 0 ? notes.join("\n") + "\n\n" : ""}\`\`\`html\n${html}\n\`\`\``,
+            },
+          ],
+        };
+      }
+
+      case "generate_component": {
+        const {
+          path: filePath,
+          groupName,
+          layerId,
+          layerPath,
+          artboard,
+          framework = "react-tsx",
+          styling = "css-modules",
+          componentName,
+          outputDir,
+          scale = 2,
+        } = args as {
           path: string;
-          format?: "summary" | "detailed" | "css";
+          groupName?: string;
+          layerId?: number;
+          layerPath?: string;
+          artboard?: string;
+          framework?: ComponentFramework;
+          styling?: ComponentStyling;
+          componentName?: string;
+          outputDir?: string;
+          scale?: number;
         };
         const absolutePath = path.resolve(filePath);
 
         if (!fs.existsSync(absolutePath)) {
           throw new Error(`File not found: ${absolutePath}`);
         }
+        if (styling === "styled-components" && framework !== "react-tsx") {
+          throw new Error("styled-components is only supported with react-tsx");
+        }
 
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
+        // Pixel data is only needed when images are exported
+        const psd = loadPsd(absolutePath, {
           skipCompositeImageData: true,
-          skipLayerImageData: true,
+          skipLayerImageData: !outputDir,
           skipThumbnail: true,
         });
 
-        const palette = extractAllColors(psd.children || []);
+        const target = artboard
+          ? findArtboard(psd.children || [], artboard)
+          : resolveLayer(psd.children || [], {
+              layerName: groupName,
+              layerId,
+              layerPath,
+            });
+        const assetDir = "assets";
+        const { info, markup, ctx } = buildLayerMarkup(
+          psd,
+          target,
+          scale,
+          assetDir,
+        );
+        if (styling !== "tailwind") {
+          applyComponentCssDefaults(markup);
+        }
+
+        const model = buildComponentModel(
+          markup,
+          ctx,
+          pascalIdentifier(componentName ?? info.name),
+          framework,
+          styling,
+        );
+        const files = renderComponentFiles(model, markup, assetDir);
+
+        const notes: string[] = [];
+        if (outputDir) {
+          const absoluteOutputDir = path.resolve(outputDir);
+          const absoluteAssetDir = path.join(absoluteOutputDir, assetDir);
+          if (!fs.existsSync(absoluteAssetDir)) {
+            fs.mkdirSync(absoluteAssetDir, { recursive: true });
+          }
 
-        if (
-          palette.uniqueColors.length === 0 &&
-          palette.gradients.length === 0
-        ) {
+          const exportedImages = writeMarkupImages(ctx, absoluteAssetDir);
+          for (const asset of model.assets) {
+            if (asset.svg) {
+              fs.writeFileSync(
+                path.join(absoluteAssetDir, asset.filename),
+                asset.svg,
+                "utf-8",
+              );
+            }
+          }
+          for (const file of files) {
+            fs.writeFileSync(
+              path.join(absoluteOutputDir, file.filename),
+              file.content,
+              "utf-8",
+            );
+          }
+          notes.push(
+            `Wrote ${files.map((f) => f.filename).join(", ")} and ${exportedImages + model.assets.filter((a) => a.svg).length} asset(s) to ${absoluteOutputDir}`,
+          );
+        } else if (model.assets.length > 0) {
+          notes.push(
+            `Imports ${model.assets.length} asset(s) from ./${assetDir}/. Pass outputDir to export them.`,
+          );
+        }
+        if (framework === "svelte" && styling === "css-modules") {
+          notes.push("Svelte styles are scoped to the component.");
+        }
+
+        const sources = files.map(
+          (file) =>
+            `// ${file.filename}\n\`\`\`${file.language}\n${file.content}\`\`\``,
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: [
+                ...(notes.length > 0 ? [notes.join("\n")] : []),
+                ...sources,
+              ].join("\n\n"),
+            },
+          ],
+        };
+      }
+
+      case "list_artboards": {
+        const filePath = (args as { path: string }).path;
+        const psdInfo = parsePsdFile(filePath);
+        const artboards: LayerInfo[] = [];
+
+        function collect(items: LayerInfo[]) {
+          for (const layer of items) {
+            if (layer.type === "artboard") {
+              artboards.push(layer);
+            }
+            if (layer.children) {
+              collect(layer.children);
+            }
+          }
+        }
+        collect(psdInfo.layers);
+
+        if (artboards.length === 0) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: "No colors found in this PSD file.",
+                text: "No artboards found in this PSD file.",
               },
             ],
           };
         }
 
-        let output: string;
+        const lines = [
+          `Found ${artboards.length} artboard(s):\n`,
+          ...artboards.map((layer, i) => {
+            const frame = layer.artboard!;
+            return [
+              `${i + 1}. **${layer.name}**${layer.id !== undefined ? ` #${layer.id}` : ""}${layer.visible ? "" : " [hidden]"}`,
+              `   Frame: ${frame.left},${frame.top} ${frame.width}x${frame.height}`,
+              `   Background: ${frame.backgroundColor ?? frame.background}`,
+              `   Layers: ${layer.children?.length ?? 0}`,
+              "",
+            ].join("\n");
+          }),
+        ];
 
-        if (format === "css") {
-          // Generate CSS custom properties
-          const cssLines = [":root {"];
-          palette.uniqueColors.forEach((hex, i) => {
-            cssLines.push(`  --color-${i + 1}: ${hex};`);
-          });
-          cssLines.push("");
-          palette.gradients.forEach((grad, i) => {
-            const gradientCss = `linear-gradient(90deg, ${grad.colors.join(", ")})`;
-            cssLines.push(`  --gradient-${i + 1}: ${gradientCss};`);
-          });
-          cssLines.push("}");
-          output = cssLines.join("\n");
-        } else if (format === "detailed") {
-          // Detailed output with sources
-          const lines = ["## Solid Colors\n"];
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: lines.join("\n"),
+            },
+          ],
+        };
+      }
 
-          // Group by color
-          const colorMap = new Map<
-            string,
-            { sources: string[]; layers: string[] }
-          >();
-          for (const color of palette.solidColors) {
-            if (!colorMap.has(color.hex)) {
-              colorMap.set(color.hex, { sources: [], layers: [] });
-            }
-            const entry = colorMap.get(color.hex)!;
-            if (!entry.sources.includes(color.source)) {
-              entry.sources.push(color.source);
-            }
-            if (!entry.layers.includes(color.layerName)) {
-              entry.layers.push(color.layerName);
-            }
-          }
+      case "get_layout_grid": {
+        const { path: filePath, artboard } = args as {
+          path: string;
+          artboard?: string;
+        };
+        const psdInfo = parsePsdFile(filePath);
+        const psd = loadPsd(path.resolve(filePath), {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
 
-          for (const [hex, info] of colorMap) {
-            lines.push(`**${hex}**`);
-            lines.push(`  Sources: ${info.sources.join(", ")}`);
-            lines.push(
-              `  Layers: ${info.layers.slice(0, 3).join(", ")}${info.layers.length > 3 ? ` (+${info.layers.length - 3} more)` : ""}`,
-            );
-            lines.push("");
-          }
+        // Frame the grid is measured against
+        let frame: PixelRect = {
+          left: 0,
+          top: 0,
+          width: psdInfo.width,
+          height: psdInfo.height,
+        };
+        let rootLayers = psdInfo.layers;
+        let artboardName: string | undefined;
+        if (artboard) {
+          const artboardInfo = findArtboardInfo(psdInfo.layers, artboard);
+          artboardName = artboardInfo.name;
+          frame = layerContentBounds(artboardInfo)!;
+          rootLayers = artboardInfo.children || [];
+        }
 
-          if (palette.gradients.length > 0) {
-            lines.push("\n## Gradients\n");
-            for (const grad of palette.gradients) {
-              lines.push(`**${grad.name || "Unnamed"}** (${grad.source})`);
-              lines.push(`  Colors: ${grad.colors.join(" → ")}`);
-              lines.push(`  Layer: ${grad.layerName}`);
-              lines.push("");
-            }
-          }
+        // Guides are stored document-wide; keep those inside the frame
+        const guides =
+          psd.imageResources?.gridAndGuidesInformation?.guides || [];
+        const vertical = guides
+          .filter((g) => g.direction === "vertical")
+          .map((g) => g.location - frame.left)
+          .filter((x) => x >= 0 && x <= frame.width)
+          .sort((a, b) => a - b);
+        const horizontal = guides
+          .filter((g) => g.direction === "horizontal")
+          .map((g) => g.location - frame.top)
+          .filter((y) => y >= 0 && y <= frame.height)
+          .sort((a, b) => a - b);
+
+        let grid = inferGridFromGuides(vertical, frame.width);
+        if (!grid) {
+          // Full-bleed blocks say nothing about columns
+          const candidates = rootLayers.filter((l) => l.visible);
+          const groups = candidates.filter((l) => l.type === "group");
+          const rects = (groups.length > 0 ? groups : candidates)
+            .map((l) => layerContentBounds(l))
+            .filter((r): r is PixelRect => r !== null)
+            .map((r) => ({
+              ...r,
+              left: r.left - frame.left,
+              top: r.top - frame.top,
+            }))
+            .filter((r) => r.left > 0 || r.left + r.width < frame.width);
+          grid = inferGridFromLayers(rects, frame.width);
+        }
 
-          output = lines.join("\n");
-        } else {
-          // Summary format
-          const lines = [
-            `Found ${palette.uniqueColors.length} unique color(s) and ${palette.gradients.length} gradient(s)`,
-            "",
-            "## Colors",
-            ...palette.uniqueColors.map((hex) => `- ${hex}`),
-          ];
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  frame: artboardName
+                    ? { artboard: artboardName, ...frame }
+                    : { width: frame.width, height: frame.height },
+                  guides: { vertical, horizontal },
+                  grid,
+                  css: grid ? columnGridToCss(grid, ".container") : null,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
 
-          if (palette.gradients.length > 0) {
-            lines.push("");
-            lines.push("## Gradients");
-            for (const grad of palette.gradients) {
-              lines.push(
-                `- ${grad.name || "Unnamed"}: ${grad.colors.join(" → ")}`,
-              );
-            }
-          }
+      case "list_vector_layers": {
+        const filePath = (args as { path: string }).path;
+        const absolutePath = path.resolve(filePath);
 
-          output = lines.join("\n");
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
+
+        const vectorLayers = getAllVectorLayers(psd.children || []);
+
+        if (vectorLayers.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No vector layers found in this PSD file.",
+              },
+            ],
+          };
         }
 
+        const layerList = vectorLayers
+          .map((layer) => {
+            const hasFill = !!layer.vectorFill;
+            const hasStroke = !!layer.vectorStroke?.strokeEnabled;
+            const idLabel = layer.id !== undefined ? ` #${layer.id}` : "";
+            return `- ${layer.name}${idLabel} (fill: ${hasFill ? "yes" : "no"}, stroke: ${hasStroke ? "yes" : "no"})`;
+          })
+          .join("\n");
+
         return {
           content: [
             {
               type: "text" as const,
-              text: output,
+              text: `Found ${vectorLayers.length} vector layer(s):\n\n${layerList}`,
             },
           ],
         };
       }
 
-      case "export_layer_image": {
+      case "export_vector_as_svg": {
         const {
           path: filePath,
           layerName,
-          layerIndex,
-          groupName,
-          outputPath: outPath,
-          scale = 2,
-          format = "png",
-          quality = 90,
+          layerId,
+          layerPath,
+          outputPath,
         } = args as {
           path: string;
-          layerName: string;
-          layerIndex?: number;
-          groupName?: string;
-          outputPath: string;
-          scale?: number;
-          format?: "png" | "jpg";
-          quality?: number;
+          layerName?: string;
+          layerId?: number;
+          layerPath?: string;
+          outputPath?: string;
         };
         const absolutePath = path.resolve(filePath);
-        const absoluteOutputPath = path.resolve(outPath);
 
         if (!fs.existsSync(absolutePath)) {
           throw new Error(`File not found: ${absolutePath}`);
         }
 
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
+        const psd = loadPsd(absolutePath, {
           skipCompositeImageData: true,
-          skipLayerImageData: false,
+          skipLayerImageData: true,
           skipThumbnail: true,
         });
 
-        // Get image layers (optionally from specific group)
-        let allImages: Layer[];
-        if (groupName) {
-          allImages = getImageLayersFromGroup(psd.children || [], groupName);
+        let vectorLayer: Layer | null;
+        if (hasLayerSelector({ layerId, layerPath })) {
+          vectorLayer = selectLayer(psd.children || [], { layerId, layerPath });
+          if (!vectorLayer.vectorMask) {
+            throw new Error(
+              `Layer "${vectorLayer.name}" does not have vector data`,
+            );
+          }
+        } else if (layerName) {
+          vectorLayer = findVectorLayer(psd.children || [], layerName);
         } else {
-          allImages = getAllImageLayers(psd.children || []);
+          throw new Error("Specify layerName, layerId or layerPath");
         }
 
-        // Find matching layers
-        const matchingLayers = allImages.filter((l) =>
-          l.name?.toLowerCase().includes(layerName.toLowerCase()),
-        );
-
-        if (matchingLayers.length === 0) {
-          const suggestions = allImages
+        if (!vectorLayer) {
+          const allVectors = getAllVectorLayers(psd.children || []);
+          const suggestions = allVectors
             .slice(0, 5)
             .map((l) => l.name)
             .join(", ");
@@ -1585,341 +9608,500 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             content: [
               {
                 type: "text" as const,
-                text: `Layer "${layerName}" not found${groupName ? ` in group "${groupName}"` : ""}.\n\nAvailable image layers: ${suggestions || "none"}`,
+                text: `Vector layer "${layerName}" not found.\n\nAvailable vector layers: ${suggestions || "none"}`,
               },
             ],
           };
         }
 
-        // If multiple matches and no index specified, show options
-        if (matchingLayers.length > 1 && layerIndex === undefined) {
-          const options = matchingLayers
-            .map((l, i) => `  ${i}: "${l.name}"`)
-            .join("\n");
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Found ${matchingLayers.length} layers matching "${layerName}". Please specify layerIndex:\n\n${options}\n\nExample: layerIndex: 0 for the first one`,
-              },
-            ],
-          };
-        }
+        const svg = vectorLayerToSvg(
+          vectorLayer,
+          psd.width,
+          psd.height,
+          documentProfile(psd),
+        );
 
-        // Select the target layer
-        const targetIndex = layerIndex ?? 0;
-        if (targetIndex >= matchingLayers.length) {
+        if (outputPath) {
+          const absoluteOutputPath = path.resolve(outputPath);
+          fs.writeFileSync(absoluteOutputPath, svg, "utf-8");
           return {
             content: [
               {
                 type: "text" as const,
-                text: `layerIndex ${targetIndex} is out of range. Only ${matchingLayers.length} layer(s) found.`,
+                text: `SVG saved to: ${absoluteOutputPath}`,
               },
             ],
           };
         }
-        const targetLayer = matchingLayers[targetIndex];
 
-        // Create output directory if needed
-        const outputDir = path.dirname(absoluteOutputPath);
-        if (!fs.existsSync(outputDir)) {
-          fs.mkdirSync(outputDir, { recursive: true });
-        }
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: svg,
+            },
+          ],
+        };
+      }
 
-        const imageBuffer = layerToImageBuffer(
-          targetLayer,
-          scale,
-          format,
-          quality,
-        );
-        if (!imageBuffer) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Layer "${targetLayer.name}" has no image data.`,
-              },
-            ],
-          };
+      case "list_layers": {
+        const { path: filePath, depth } = args as {
+          path: string;
+          depth?: number;
+        };
+        const psdInfo = parsePsdFile(filePath);
+
+        // Apply depth limit if specified
+        function limitDepth(
+          layers: LayerInfo[],
+          currentDepth: number,
+          maxDepth: number,
+        ): LayerInfo[] {
+          if (currentDepth >= maxDepth) {
+            return layers.map((l) => ({
+              ...l,
+              children: l.children?.length
+                ? [
+                    {
+                      name: `... (${l.children.length} children)`,
+                      path: `${l.path}/...`,
+                      type: "unknown" as const,
+                      visible: true,
+                      opacity: 1,
+                      fillOpacity: 1,
+                      blendMode: "normal",
+                      bounds: { left: 0, top: 0, width: 0, height: 0 },
+                    },
+                  ]
+                : undefined,
+            }));
+          }
+          return layers.map((l) => ({
+            ...l,
+            children: l.children
+              ? limitDepth(l.children, currentDepth + 1, maxDepth)
+              : undefined,
+          }));
         }
 
-        fs.writeFileSync(absoluteOutputPath, imageBuffer);
+        const layersToShow = depth
+          ? limitDepth(psdInfo.layers, 0, depth)
+          : psdInfo.layers;
+        const tree = formatLayerTree(layersToShow);
 
         return {
           content: [
             {
               type: "text" as const,
-              text: `Exported "${targetLayer.name}" to ${absoluteOutputPath} (${format.toUpperCase()}, ${scale}x)`,
+              text: `PSD: ${psdInfo.width}x${psdInfo.height}\n\n${tree}`,
             },
           ],
         };
       }
 
-      case "export_all_vectors_as_svg": {
+      case "get_layer_by_name": {
         const {
           path: filePath,
-          outputDir,
-          groupName,
+          name: layerName,
+          exact,
+          layerId,
+          layerPath,
+          relativeToArtboard,
         } = args as {
           path: string;
-          outputDir: string;
-          groupName?: string;
+          name?: string;
+          exact?: boolean;
+          layerId?: number;
+          layerPath?: string;
+          relativeToArtboard?: boolean;
         };
-        const absolutePath = path.resolve(filePath);
-        const absoluteOutputDir = path.resolve(outputDir);
+        const psdInfo = parsePsdFile(filePath, { relativeToArtboard });
 
-        if (!fs.existsSync(absolutePath)) {
-          throw new Error(`File not found: ${absolutePath}`);
-        }
+        let layer: LayerInfo | null;
+        if (hasLayerSelector({ layerId, layerPath })) {
+          layer = selectLayerInfo(psdInfo.layers, { layerId, layerPath });
+        } else {
+          if (!layerName) {
+            throw new Error("Specify name, layerId or layerPath");
+          }
+          layer = findLayerByName(psdInfo.layers, layerName, exact ?? false);
 
-        // Create output directory if it doesn't exist
-        if (!fs.existsSync(absoluteOutputDir)) {
-          fs.mkdirSync(absoluteOutputDir, { recursive: true });
+          if (!layer) {
+            // Show suggestions
+            const similar = searchLayersByName(
+              psdInfo.layers,
+              layerName.slice(0, 3),
+            );
+            const suggestions = similar
+              .slice(0, 5)
+              .map((l) => `${l.path} (id: ${l.id ?? "none"})`)
+              .join(", ");
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Layer "${layerName}" not found.\n\nSimilar layers: ${suggestions || "none"}`,
+                },
+              ],
+            };
+          }
         }
 
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
-          skipCompositeImageData: true,
-          skipLayerImageData: true,
-          skipThumbnail: true,
-        });
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(layer, null, 2),
+            },
+          ],
+        };
+      }
 
-        let vectorLayers: Layer[];
-        if (groupName) {
-          // Find group and get vectors from it
-          const findGroup = (layers: Layer[]): Layer | null => {
-            for (const layer of layers) {
-              if (
-                layer.name?.toLowerCase().includes(groupName.toLowerCase()) &&
-                layer.children
-              ) {
-                return layer;
-              }
-              if (layer.children) {
-                const found = findGroup(layer.children);
-                if (found) return found;
-              }
-            }
-            return null;
-          };
-          const group = findGroup(psd.children || []);
-          vectorLayers = group ? getAllVectorLayers(group.children || []) : [];
+      case "get_layer_children": {
+        const {
+          path: filePath,
+          groupName,
+          layerId,
+          layerPath,
+          format,
+          relativeToArtboard,
+        } = args as {
+          path: string;
+          groupName?: string;
+          layerId?: number;
+          layerPath?: string;
+          format?: "tree" | "detailed";
+          relativeToArtboard?: boolean;
+        };
+        const psdInfo = parsePsdFile(filePath, { relativeToArtboard });
+
+        let group: LayerInfo | null;
+        if (hasLayerSelector({ layerId, layerPath })) {
+          group = selectLayerInfo(psdInfo.layers, { layerId, layerPath });
         } else {
-          vectorLayers = getAllVectorLayers(psd.children || []);
+          if (!groupName) {
+            throw new Error("Specify groupName, layerId or layerPath");
+          }
+          group = findLayerByName(psdInfo.layers, groupName, false);
+
+          if (!group) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Group "${groupName}" not found.`,
+                },
+              ],
+            };
+          }
         }
 
-        if (vectorLayers.length === 0) {
+        if (!group.children || group.children.length === 0) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: groupName
-                  ? `No vector layers found in group "${groupName}".`
-                  : "No vector layers found in this PSD file.",
+                text: `"${group.name}" has no children (type: ${group.type})`,
               },
             ],
           };
         }
 
-        const exported: string[] = [];
+        const outputFormat = format ?? "tree";
+        const output =
+          outputFormat === "tree"
+            ? formatLayerTree(group.children)
+            : JSON.stringify(group.children, null, 2);
 
-        // Track filenames to avoid duplicates
-        const usedFilenames = new Map<string, number>();
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Children of "${group.name}" (${group.children.length} items):\n\n${output}`,
+            },
+          ],
+        };
+      }
 
-        for (const layer of vectorLayers) {
-          try {
-            const svg = vectorLayerToSvg(layer, psd.width, psd.height);
-            const baseName = sanitizeFilename(layer.name || "unnamed");
-
-            // Check for duplicate and add number suffix if needed
-            let finalName: string;
-            const count = usedFilenames.get(baseName) || 0;
-            if (count === 0) {
-              finalName = baseName;
-            } else {
-              finalName = `${baseName}_${String(count).padStart(2, "0")}`;
-            }
-            usedFilenames.set(baseName, count + 1);
+      case "infer_layout": {
+        const {
+          path: filePath,
+          groupName,
+          layerId,
+          layerPath,
+        } = args as {
+          path: string;
+          groupName?: string;
+          layerId?: number;
+          layerPath?: string;
+        };
+        const psdInfo = parsePsdFile(filePath);
 
-            const filename = finalName + ".svg";
-            const outputPath = path.join(absoluteOutputDir, filename);
-            fs.writeFileSync(outputPath, svg, "utf-8");
-            exported.push(filename);
-          } catch (e) {
-            // Skip layers that fail to export
+        let group: LayerInfo | null;
+        if (hasLayerSelector({ layerId, layerPath })) {
+          group = selectLayerInfo(psdInfo.layers, { layerId, layerPath });
+        } else {
+          if (!groupName) {
+            throw new Error("Specify groupName, layerId or layerPath");
+          }
+          group = findLayerByName(psdInfo.layers, groupName, false);
+          if (!group) {
+            throw new Error(`Group "${groupName}" not found`);
           }
         }
 
+        if (!group.children || group.children.length === 0) {
+          throw new Error(
+            `"${group.name}" has no children (type: ${group.type})`,
+          );
+        }
+
+        const { container, items, layout } = inferStackLayout(group);
+        const layoutCss = stackLayoutToCss(layout);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  group: { name: group.name, id: group.id, path: group.path },
+                  container,
+                  layout,
+                  children: items.map((item) => ({
+                    name: item.layer.name,
+                    id: item.layer.id,
+                    type: item.layer.type,
+                    bounds: item.rect,
+                  })),
+                  css: formatCssRule(
+                    `.${cssClassName(group.name)}`,
+                    layoutCss.properties,
+                    layoutCss.notes,
+                  ),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "parse_psd": {
+        const { path: filePath, relativeToArtboard } = args as {
+          path: string;
+          relativeToArtboard?: boolean;
+        };
+        const psdInfo = parsePsdFile(filePath, { relativeToArtboard });
         return {
           content: [
             {
               type: "text" as const,
-              text: `Exported ${exported.length} SVG file(s) to ${absoluteOutputDir}:\n\n${exported.map((f) => `- ${f}`).join("\n")}`,
+              text: JSON.stringify(psdInfo, null, 2),
             },
           ],
         };
       }
 
-      case "export_images": {
+      case "get_text_layers": {
         const {
           path: filePath,
-          outputDir,
-          groupName,
-          scale = 2,
-          format = "png",
-          quality = 90,
+          artboard,
+          relativeToArtboard,
         } = args as {
           path: string;
-          outputDir: string;
-          groupName?: string;
-          scale?: number;
-          format?: "png" | "jpg";
-          quality?: number;
+          artboard?: string;
+          relativeToArtboard?: boolean;
         };
-        const absolutePath = path.resolve(filePath);
-        const absoluteOutputDir = path.resolve(outputDir);
-
-        if (!fs.existsSync(absolutePath)) {
-          throw new Error(`File not found: ${absolutePath}`);
-        }
-
-        // Create output directory if it doesn't exist
-        if (!fs.existsSync(absoluteOutputDir)) {
-          fs.mkdirSync(absoluteOutputDir, { recursive: true });
-        }
-
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
-          skipCompositeImageData: true,
-          skipLayerImageData: false, // Need image data for export
-          skipThumbnail: true,
-        });
-
-        let imageLayers: Layer[];
-        if (groupName) {
-          imageLayers = getImageLayersFromGroup(psd.children || [], groupName);
-        } else {
-          imageLayers = getAllImageLayers(psd.children || []);
-        }
-
-        if (imageLayers.length === 0) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: groupName
-                  ? `No image layers found in group "${groupName}".`
-                  : "No image layers found in this PSD file.",
-              },
-            ],
-          };
-        }
-
-        const exported: string[] = [];
-        const suffix = scale !== 1 ? `@${scale}x` : "";
-        const ext = format === "jpg" ? ".jpg" : ".png";
-
-        // Track filenames to avoid duplicates
-        const usedFilenames = new Map<string, number>();
-
-        for (const layer of imageLayers) {
-          try {
-            const imageBuffer = layerToImageBuffer(
-              layer,
-              scale,
-              format,
-              quality,
-            );
-            if (imageBuffer) {
-              const baseName = sanitizeFilename(layer.name || "unnamed");
-
-              // Check for duplicate and add number suffix if needed
-              let finalName: string;
-              const count = usedFilenames.get(baseName) || 0;
-              if (count === 0) {
-                finalName = baseName;
-              } else {
-                finalName = `${baseName}_${String(count).padStart(2, "0")}`;
-              }
-              usedFilenames.set(baseName, count + 1);
-
-              const filename = finalName + suffix + ext;
-              const outputPath = path.join(absoluteOutputDir, filename);
-              fs.writeFileSync(outputPath, imageBuffer);
-              exported.push(filename);
-            }
-          } catch (e) {
-            // Skip layers that fail to export
-          }
+        const psdInfo = parsePsdFile(filePath, { relativeToArtboard });
+
+        // Optionally scope to a single artboard
+        let scope = psdInfo.layers;
+        let artboardInfo: LayerInfo | undefined;
+        if (artboard) {
+          artboardInfo = findArtboardInfo(psdInfo.layers, artboard);
+          scope = [artboardInfo];
         }
 
-        const formatInfo =
-          format === "jpg" ? `JPG (quality: ${quality})` : "PNG";
+        const textLayers = getTextLayers(scope);
         return {
           content: [
             {
               type: "text" as const,
-              text: `Exported ${exported.length} ${formatInfo} file(s) at ${scale}x to ${absoluteOutputDir}:\n\n${exported.map((f) => `- ${f}`).join("\n")}`,
+              text: JSON.stringify(
+                {
+                  documentSize: {
+                    width: psdInfo.width,
+                    height: psdInfo.height,
+                  },
+                  artboard: artboardInfo
+                    ? { name: artboardInfo.name, ...artboardInfo.artboard }
+                    : undefined,
+                  textLayers,
+                },
+                null,
+                2,
+              ),
             },
           ],
         };
       }
 
-      case "list_vector_layers": {
-        const filePath = (args as { path: string }).path;
+      case "list_fonts": {
+        const { path: filePath, format = "summary" } = args as {
+          path: string;
+          format?: "summary" | "detailed" | "css";
+        };
         const absolutePath = path.resolve(filePath);
 
         if (!fs.existsSync(absolutePath)) {
           throw new Error(`File not found: ${absolutePath}`);
         }
 
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
+        const psd = loadPsd(absolutePath, {
           skipCompositeImageData: true,
           skipLayerImageData: true,
           skipThumbnail: true,
         });
 
-        const vectorLayers = getAllVectorLayers(psd.children || []);
+        const fontMap = extractAllFonts(
+          psd.children || [],
+          documentProfile(psd),
+        );
 
-        if (vectorLayers.length === 0) {
+        if (fontMap.size === 0) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: "No vector layers found in this PSD file.",
+                text: "No fonts found in this PSD file (no text layers).",
               },
             ],
           };
         }
 
-        const layerList = vectorLayers
-          .map((layer) => {
-            const hasFill = !!layer.vectorFill;
-            const hasStroke = !!layer.vectorStroke?.strokeEnabled;
-            return `- ${layer.name} (fill: ${hasFill ? "yes" : "no"}, stroke: ${hasStroke ? "yes" : "no"})`;
-          })
-          .join("\n");
+        const fonts = Array.from(fontMap.values()).sort((a, b) =>
+          a.fontName.localeCompare(b.fontName),
+        );
+        const families = groupFontsByFamily(fonts);
+
+        let output: string;
+
+        if (format === "css") {
+          // Generate one CSS @font-face per family, weight, style and stretch
+          const cssLines = [
+            "/* Font faces used in this PSD */",
+            "/* Replace src with actual font file paths */",
+            "",
+          ];
+          for (const [family, faces] of families) {
+            const emitted = new Set<string>();
+            for (const font of faces) {
+              const label = fontFaceLabel(font);
+              if (emitted.has(label)) continue;
+              emitted.add(label);
+              const safeName = font.fontName.replace(/[^a-zA-Z0-9-]/g, "-");
+              cssLines.push(`/* ${font.fontName} */`);
+              cssLines.push(`@font-face {`);
+              cssLines.push(`  font-family: '${family}';`);
+              cssLines.push(
+                `  src: url('./fonts/${safeName}.woff2') format('woff2'),`,
+              );
+              cssLines.push(
+                `       url('./fonts/${safeName}.woff') format('woff');`,
+              );
+              cssLines.push(`  font-weight: ${font.weight};`);
+              cssLines.push(`  font-style: ${font.style};`);
+              if (font.stretch !== "normal") {
+                cssLines.push(`  font-stretch: ${font.stretch};`);
+              }
+              cssLines.push(`  font-display: swap;`);
+              cssLines.push(`}`);
+              cssLines.push(``);
+            }
+          }
+          cssLines.push(`/* CSS variables for font sizes */`);
+          cssLines.push(`:root {`);
+          const allSizes = [...new Set(fonts.flatMap((f) => f.sizes))].sort(
+            (a, b) => a - b,
+          );
+          allSizes.forEach((size, i) => {
+            cssLines.push(`  --font-size-${i + 1}: ${size}px;`);
+          });
+          cssLines.push(`}`);
+          output = cssLines.join("\n");
+        } else if (format === "detailed") {
+          // Detailed output
+          const lines = [
+            `Found ${fonts.length} font(s) in ${families.size} famil${families.size === 1 ? "y" : "ies"}:\n`,
+          ];
+          for (const [family, faces] of families) {
+            lines.push(`## ${family}`);
+            lines.push(``);
+            for (const font of faces) {
+              const styleList: string[] = [];
+              if (font.styles.regular) styleList.push("Regular");
+              if (font.styles.bold) styleList.push("Bold");
+              if (font.styles.italic) styleList.push("Italic");
+              if (font.styles.fauxBold) styleList.push("Faux Bold");
+              if (font.styles.fauxItalic) styleList.push("Faux Italic");
+
+              lines.push(`### ${font.fontName} (${fontFaceLabel(font)})`);
+              lines.push(`   Sizes: ${font.sizes.join("px, ")}px`);
+              lines.push(`   Styles: ${styleList.join(", ") || "Unknown"}`);
+              if (font.colors.length > 0) {
+                lines.push(`   Colors: ${font.colors.join(", ")}`);
+              }
+              lines.push(
+                `   Used in: ${font.layers.slice(0, 5).join(", ")}${font.layers.length > 5 ? ` (+${font.layers.length - 5} more)` : ""}`,
+              );
+              lines.push(``);
+            }
+          }
+          output = lines.join("\n");
+        } else {
+          // Summary format
+          const lines = [
+            `Found ${fonts.length} font(s) in ${families.size} famil${families.size === 1 ? "y" : "ies"}:\n`,
+          ];
+          for (const [family, faces] of families) {
+            const sizes = [...new Set(faces.flatMap((f) => f.sizes))].sort(
+              (a, b) => a - b,
+            );
+            const sizeRange =
+              sizes.length > 0
+                ? sizes.length === 1
+                  ? `${sizes[0]}px`
+                  : `${sizes[0]}-${sizes[sizes.length - 1]}px`
+                : "";
+            const faceList = faces
+              .map((font) => `${fontFaceLabel(font)} (${font.fontName})`)
+              .join(", ");
+            lines.push(`- **${family}** ${sizeRange}: ${faceList}`);
+          }
+          output = lines.join("\n");
+        }
 
         return {
           content: [
             {
               type: "text" as const,
-              text: `Found ${vectorLayers.length} vector layer(s):\n\n${layerList}`,
+              text: output,
             },
           ],
         };
       }
 
-      case "export_vector_as_svg": {
+      case "extract_text_styles": {
         const {
           path: filePath,
-          layerName,
-          outputPath,
+          artboard,
+          format = "summary",
         } = args as {
           path: string;
-          layerName: string;
-          outputPath?: string;
+          artboard?: string;
+          format?: "summary" | "css" | "json";
         };
         const absolutePath = path.resolve(filePath);
 
@@ -1927,356 +10109,413 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`File not found: ${absolutePath}`);
         }
 
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
+        const psd = loadPsd(absolutePath, {
           skipCompositeImageData: true,
           skipLayerImageData: true,
           skipThumbnail: true,
         });
+        const rootLayers = artboard
+          ? [findArtboard(psd.children || [], artboard)]
+          : psd.children || [];
 
-        const vectorLayer = findVectorLayer(psd.children || [], layerName);
-
-        if (!vectorLayer) {
-          const allVectors = getAllVectorLayers(psd.children || []);
-          const suggestions = allVectors
-            .slice(0, 5)
-            .map((l) => l.name)
-            .join(", ");
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Vector layer "${layerName}" not found.\n\nAvailable vector layers: ${suggestions || "none"}`,
-              },
-            ],
-          };
-        }
-
-        const svg = vectorLayerToSvg(vectorLayer, psd.width, psd.height);
-
-        if (outputPath) {
-          const absoluteOutputPath = path.resolve(outputPath);
-          fs.writeFileSync(absoluteOutputPath, svg, "utf-8");
+        const styles = extractTextStyles(psd, rootLayers);
+        if (styles.length === 0) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `SVG saved to: ${absoluteOutputPath}`,
+                text: "No text styles found (no visible text layers).",
               },
             ],
           };
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: svg,
-            },
-          ],
-        };
-      }
-
-      case "list_layers": {
-        const { path: filePath, depth } = args as {
-          path: string;
-          depth?: number;
-        };
-        const psdInfo = parsePsdFile(filePath);
+        const pxPerPt = pixelsPerPoint(psd);
+        const resolutionNote =
+          pxPerPt === 1
+            ? "72 ppi: 1pt = 1px"
+            : `${roundCss(pxPerPt * 72)} ppi: 1pt = ${roundCss(pxPerPt)}px`;
 
-        // Apply depth limit if specified
-        function limitDepth(
-          layers: LayerInfo[],
-          currentDepth: number,
-          maxDepth: number,
-        ): LayerInfo[] {
-          if (currentDepth >= maxDepth) {
-            return layers.map((l) => ({
-              ...l,
-              children: l.children?.length
-                ? [
-                    {
-                      name: `... (${l.children.length} children)`,
-                      type: "unknown" as const,
-                      visible: true,
-                      opacity: 1,
-                      bounds: { left: 0, top: 0, width: 0, height: 0 },
-                    },
-                  ]
-                : undefined,
-            }));
+        let output: string;
+        if (format === "json") {
+          output = JSON.stringify(styles, null, 2);
+        } else if (format === "css") {
+          output = [
+            `/* ${styles.length} text style(s), ${resolutionNote} */`,
+            ...styles.map((style) =>
+              formatCssRule(
+                `.${cssClassName(style.name)}`,
+                textStyleToCss(style),
+                [
+                  `${style.count} use(s): ${style.layers.slice(0, 3).join(", ")}${style.layers.length > 3 ? ` (+${style.layers.length - 3} more)` : ""}`,
+                ],
+              ),
+            ),
+          ].join("\n\n");
+        } else {
+          const lines = [
+            `Found ${styles.length} text style(s) (${resolutionNote}):`,
+            "",
+          ];
+          for (const style of styles) {
+            const details = [
+              `${style.fontFamily} ${style.fontWeight}${style.fontStyle === "italic" ? " italic" : ""}`,
+              `${style.fontSize}px/${style.lineHeight}`,
+              ...(style.letterSpacing ? [`${style.letterSpacing}em`] : []),
+              ...(style.textTransform ? [style.textTransform] : []),
+              ...(style.color ? [style.color] : []),
+            ];
+            lines.push(
+              `- **${style.name}**: ${details.join(", ")} (${style.count} use${style.count === 1 ? "" : "s"})`,
+            );
           }
-          return layers.map((l) => ({
-            ...l,
-            children: l.children
-              ? limitDepth(l.children, currentDepth + 1, maxDepth)
-              : undefined,
-          }));
+          output = lines.join("\n");
         }
 
-        const layersToShow = depth
-          ? limitDepth(psdInfo.layers, 0, depth)
-          : psdInfo.layers;
-        const tree = formatLayerTree(layersToShow);
-
         return {
           content: [
             {
               type: "text" as const,
-              text: `PSD: ${psdInfo.width}x${psdInfo.height}\n\n${tree}`,
+              text: output,
             },
           ],
         };
       }
 
-      case "get_layer_by_name": {
+      case "extract_spacing": {
         const {
           path: filePath,
-          name: layerName,
-          exact,
+          artboard,
+          format = "summary",
         } = args as {
           path: string;
-          name: string;
-          exact?: boolean;
+          artboard?: string;
+          format?: "summary" | "css" | "json";
         };
         const psdInfo = parsePsdFile(filePath);
-        const layer = findLayerByName(
-          psdInfo.layers,
-          layerName,
-          exact ?? false,
-        );
+        const scope = artboard
+          ? [findArtboardInfo(psdInfo.layers, artboard)]
+          : psdInfo.layers;
 
-        if (!layer) {
-          // Show suggestions
-          const similar = searchLayersByName(
-            psdInfo.layers,
-            layerName.slice(0, 3),
-          );
-          const suggestions = similar
-            .slice(0, 5)
-            .map((l) => l.name)
-            .join(", ");
+        const measurements = measureSpacing(scope);
+        if (measurements.length === 0) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Layer "${layerName}" not found.\n\nSimilar layers: ${suggestions || "none"}`,
+                text: "No spacing found (no groups with more than one visible layer).",
               },
             ],
           };
         }
+        const spacing = buildSpacingScale(measurements);
+
+        let output: string;
+        if (format === "json") {
+          output = JSON.stringify(spacing, null, 2);
+        } else if (format === "css") {
+          const cssLines = [
+            `/* ${spacing.baseUnit}px base unit, fits ${Math.round(spacing.fit * 100)}% of ${measurements.length} measurements */`,
+            ":root {",
+            ...spacing.scale.map(
+              (step) => `  --space-${step.name}: ${step.value}px;`,
+            ),
+            "}",
+          ];
+          output = cssLines.join("\n");
+        } else {
+          const gaps = measurements.filter((m) => m.kind === "gap").length;
+          const lines = [
+            `Measured ${gaps} gap(s) and ${measurements.length - gaps} padding(s). Base unit: ${spacing.baseUnit}px (fits ${Math.round(spacing.fit * 100)}%)`,
+            "",
+            "## Scale",
+            ...spacing.scale.map(
+              (step) =>
+                `- space-${step.name}: ${step.value}px (${step.count} use${step.count === 1 ? "" : "s"})`,
+            ),
+          ];
+          if (spacing.outliers.length > 0) {
+            lines.push("", `## Off-grid values`);
+            for (const outlier of spacing.outliers) {
+              lines.push(
+                `- ${outlier.value}px (${outlier.count}x): ${outlier.layers.slice(0, 4).join(", ")}${outlier.layers.length > 4 ? ` (+${outlier.layers.length - 4} more)` : ""}`,
+              );
+            }
+          }
+          output = lines.join("\n");
+        }
 
         return {
           content: [
             {
               type: "text" as const,
-              text: JSON.stringify(layer, null, 2),
+              text: output,
             },
           ],
         };
       }
 
-      case "get_layer_children": {
+      case "check_contrast": {
         const {
           path: filePath,
-          groupName,
-          format,
+          level = "AA",
+          artboard,
+          format = "summary",
         } = args as {
           path: string;
-          groupName: string;
-          format?: "tree" | "detailed";
+          level?: "AA" | "AAA";
+          artboard?: string;
+          format?: "summary" | "json";
         };
-        const psdInfo = parsePsdFile(filePath);
-        const group = findLayerByName(psdInfo.layers, groupName, false);
+        const absolutePath = path.resolve(filePath);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
 
-        if (!group) {
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
+        const rootLayers = artboard
+          ? [findArtboard(psd.children || [], artboard)]
+          : psd.children || [];
+
+        const results = checkTextContrast(
+          rootLayers,
+          documentProfile(psd),
+          () => loadCompositeCanvas(absolutePath).canvas,
+        );
+
+        if (format === "json") {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Group "${groupName}" not found.`,
+                text: JSON.stringify(results, null, 2),
               },
             ],
           };
         }
 
-        if (!group.children || group.children.length === 0) {
+        if (results.length === 0) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `"${group.name}" has no children (type: ${group.type})`,
+                text: "No visible text layers found.",
               },
             ],
           };
         }
 
-        const outputFormat = format ?? "tree";
-        const output =
-          outputFormat === "tree"
-            ? formatLayerTree(group.children)
-            : JSON.stringify(group.children, null, 2);
+        const passes = (r: ContrastResult) => (level === "AAA" ? r.aaa : r.aa);
+        const failures = results.filter((r) => passes(r) === false);
+        const unknown = results.filter((r) => r.ratio === undefined);
+        const apcaFailures = results.filter((r) => r.apcaPass === false);
+        const lines = [
+          `Checked ${results.length} text layer(s) against WCAG ${level}: ${results.length - failures.length - unknown.length} pass, ${failures.length} fail${unknown.length > 0 ? `, ${unknown.length} not measured` : ""}`,
+          `APCA: ${apcaFailures.length} below the recommended Lc for their size`,
+        ];
+        const describe = (r: ContrastResult) =>
+          `- **${r.path}** "${r.text}": ${r.color} on ${r.background} = ${r.ratio}:1 (needs ${level === "AAA" ? (r.largeText ? 4.5 : 7) : r.largeText ? 3 : 4.5}:1), APCA Lc ${r.apca} (needs ${r.apcaMinimum}); ${r.fontSize}px/${r.fontWeight}, background from ${r.backgroundSource}`;
+
+        if (failures.length > 0) {
+          lines.push("", `## Failing WCAG ${level}`, ...failures.map(describe));
+        }
+        const apcaOnly = apcaFailures.filter((r) => passes(r) !== false);
+        if (apcaOnly.length > 0) {
+          lines.push(
+            "",
+            "## Passing WCAG but below APCA",
+            ...apcaOnly.map(describe),
+          );
+        }
+        const noBackground = unknown.filter((r) => !r.background);
+        if (noBackground.length > 0) {
+          lines.push(
+            "",
+            "## Background not detected",
+            ...noBackground.map(
+              (r) => `- **${r.path}**: ${r.backgroundSource}`,
+            ),
+          );
+        }
+        const noColor = unknown.filter((r) => r.background && !r.color);
+        if (noColor.length > 0) {
+          lines.push(
+            "",
+            "## Text color unknown",
+            ...noColor.map(
+              (r) => `- **${r.path}**: no fill color in the text style`,
+            ),
+          );
+        }
 
         return {
           content: [
             {
               type: "text" as const,
-              text: `Children of "${group.name}" (${group.children.length} items):\n\n${output}`,
+              text: lines.join("\n"),
             },
           ],
         };
       }
 
-      case "parse_psd": {
-        const filePath = (args as { path: string }).path;
-        const psdInfo = parsePsdFile(filePath);
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(psdInfo, null, 2),
-            },
-          ],
+      case "generate_tailwind_theme": {
+        const { path: filePath, version = "v3" } = args as {
+          path: string;
+          version?: "v3" | "v4";
         };
-      }
+        const absolutePath = path.resolve(filePath);
+
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
+
+        const tokens = extractDesignTokens(psd);
+        const code = tokensToTailwind(tokens, documentProfile(psd), version);
 
-      case "get_text_layers": {
-        const filePath = (args as { path: string }).path;
-        const psdInfo = parsePsdFile(filePath);
-        const textLayers = getTextLayers(psdInfo.layers);
         return {
           content: [
             {
               type: "text" as const,
-              text: JSON.stringify(
-                {
-                  documentSize: {
-                    width: psdInfo.width,
-                    height: psdInfo.height,
-                  },
-                  textLayers,
-                },
-                null,
-                2,
-              ),
+              text: `\`\`\`${version === "v4" ? "css" : "js"}\n${code}\n\`\`\``,
             },
           ],
         };
       }
 
-      case "list_fonts": {
-        const { path: filePath, format = "summary" } = args as {
+      case "export_design_tokens": {
+        const {
+          path: filePath,
+          format = "dtcg",
+          outputPath,
+        } = args as {
           path: string;
-          format?: "summary" | "detailed" | "css";
+          format?: "dtcg";
+          outputPath?: string;
         };
         const absolutePath = path.resolve(filePath);
 
         if (!fs.existsSync(absolutePath)) {
           throw new Error(`File not found: ${absolutePath}`);
         }
+        if (format !== "dtcg") {
+          throw new Error(`Unsupported token format: ${format}`);
+        }
 
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
+        const psd = loadPsd(absolutePath, {
           skipCompositeImageData: true,
           skipLayerImageData: true,
           skipThumbnail: true,
         });
 
-        const fontMap = extractAllFonts(psd.children || []);
+        const json = JSON.stringify(
+          tokensToDtcg(extractDesignTokens(psd), documentProfile(psd)),
+          null,
+          2,
+        );
 
-        if (fontMap.size === 0) {
+        if (outputPath) {
+          const absoluteOutput = path.resolve(outputPath);
+          fs.mkdirSync(path.dirname(absoluteOutput), { recursive: true });
+          fs.writeFileSync(absoluteOutput, json + "\n");
           return {
             content: [
               {
                 type: "text" as const,
-                text: "No fonts found in this PSD file (no text layers).",
+                text: `Wrote design tokens to ${absoluteOutput}`,
               },
             ],
           };
         }
 
-        const fonts = Array.from(fontMap.values()).sort((a, b) =>
-          a.fontName.localeCompare(b.fontName),
-        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: json,
+            },
+          ],
+        };
+      }
 
-        let output: string;
+      case "generate_platform_tokens": {
+        const {
+          path: filePath,
+          platform,
+          packageName,
+          outputDir,
+        } = args as {
+          path: string;
+          platform: TokenPlatform;
+          packageName?: string;
+          outputDir?: string;
+        };
+        const absolutePath = path.resolve(filePath);
 
-        if (format === "css") {
-          // Generate CSS @font-face template
-          const cssLines = [
-            "/* Font faces used in this PSD */",
-            "/* Replace src with actual font file paths */",
-            "",
-          ];
-          for (const font of fonts) {
-            const safeName = font.fontName.replace(/[^a-zA-Z0-9-]/g, "-");
-            cssLines.push(`@font-face {`);
-            cssLines.push(`  font-family: '${font.fontName}';`);
-            cssLines.push(
-              `  src: url('./fonts/${safeName}.woff2') format('woff2'),`,
-            );
-            cssLines.push(
-              `       url('./fonts/${safeName}.woff') format('woff');`,
-            );
-            cssLines.push(`  font-weight: normal;`);
-            cssLines.push(`  font-style: normal;`);
-            cssLines.push(`  font-display: swap;`);
-            cssLines.push(`}`);
-            cssLines.push(``);
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(`File not found: ${absolutePath}`);
+        }
+
+        const psd = loadPsd(absolutePath, {
+          skipCompositeImageData: true,
+          skipLayerImageData: true,
+          skipThumbnail: true,
+        });
+
+        const files = tokensToPlatformFiles(
+          extractDesignTokens(psd),
+          platform,
+          packageName,
+        );
+
+        const notes: string[] = [];
+        if (outputDir) {
+          const absoluteOutputDir = path.resolve(outputDir);
+          for (const file of files) {
+            const outputPath = path.join(absoluteOutputDir, file.filename);
+            fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+            fs.writeFileSync(outputPath, file.content, "utf-8");
           }
-          cssLines.push(`/* CSS variables for font sizes */`);
-          cssLines.push(`:root {`);
-          const allSizes = [...new Set(fonts.flatMap((f) => f.sizes))].sort(
-            (a, b) => a - b,
+          notes.push(
+            `Wrote ${files.map((f) => f.filename).join(", ")} to ${absoluteOutputDir}`,
           );
-          allSizes.forEach((size, i) => {
-            cssLines.push(`  --font-size-${i + 1}: ${size}px;`);
-          });
-          cssLines.push(`}`);
-          output = cssLines.join("\n");
-        } else if (format === "detailed") {
-          // Detailed output
-          const lines = [`Found ${fonts.length} font(s):\n`];
-          for (const font of fonts) {
-            const styleList: string[] = [];
-            if (font.styles.regular) styleList.push("Regular");
-            if (font.styles.bold) styleList.push("Bold");
-            if (font.styles.italic) styleList.push("Italic");
-            if (font.styles.fauxBold) styleList.push("Faux Bold");
-            if (font.styles.fauxItalic) styleList.push("Faux Italic");
-
-            lines.push(`## ${font.fontName}`);
-            lines.push(`   Sizes: ${font.sizes.join("px, ")}px`);
-            lines.push(`   Styles: ${styleList.join(", ") || "Unknown"}`);
-            if (font.colors.length > 0) {
-              lines.push(`   Colors: ${font.colors.join(", ")}`);
-            }
-            lines.push(
-              `   Used in: ${font.layers.slice(0, 5).join(", ")}${font.layers.length > 5 ? ` (+${font.layers.length - 5} more)` : ""}`,
-            );
-            lines.push(``);
+        }
+        if (platform === "android" || platform === "compose") {
+          notes.push(
+            "Font resources are referenced as res/font/<postscript_name>; add the font files there.",
+          );
+          if (platform === "compose") {
+            notes.push("Import your app's R class in Type.kt.");
           }
-          output = lines.join("\n");
+        } else if (platform === "flutter") {
+          notes.push(
+            "Declare the font families under flutter.fonts in pubspec.yaml.",
+          );
         } else {
-          // Summary format
-          const lines = [`Found ${fonts.length} font(s):\n`];
-          for (const font of fonts) {
-            const sizeRange =
-              font.sizes.length > 0
-                ? font.sizes.length === 1
-                  ? `${font.sizes[0]}px`
-                  : `${font.sizes[0]}-${font.sizes[font.sizes.length - 1]}px`
-                : "";
-            lines.push(`- **${font.fontName}** ${sizeRange}`);
-          }
-          output = lines.join("\n");
+          notes.push(
+            "Add the font files to the app target and list them under UIAppFonts in Info.plist.",
+          );
         }
 
+        const sources = files.map(
+          (file) =>
+            `// ${file.filename}\n\`\`\`${file.language}\n${file.content}\`\`\``,
+        );
         return {
           content: [
             {
               type: "text" as const,
-              text: output,
+              text: [notes.join("\n"), ...sources].join("\n\n"),
             },
           ],
         };
@@ -2290,8 +10529,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`File not found: ${absolutePath}`);
         }
 
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
+        const psd = loadPsd(absolutePath, {
           skipCompositeImageData: true,
           skipLayerImageData: true,
           skipThumbnail: true,
@@ -2368,11 +10606,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           path: filePath,
           layerName,
           layerIndex,
+          layerId,
+          layerPath,
           outputPath,
         } = args as {
           path: string;
-          layerName: string;
+          layerName?: string;
           layerIndex?: number;
+          layerId?: number;
+          layerPath?: string;
           outputPath?: string;
         };
         const absolutePath = path.resolve(filePath);
@@ -2381,8 +10623,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`File not found: ${absolutePath}`);
         }
 
-        const buffer = fs.readFileSync(absolutePath);
-        const psd = readPsd(buffer, {
+        const psd = loadPsd(absolutePath, {
           skipCompositeImageData: true,
           skipLayerImageData: true,
           skipThumbnail: true,
@@ -2392,9 +10633,24 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const smartObjects = getAllSmartObjectLayers(psd.children || []);
 
         // Find matching smart objects
-        const matchingSOs = smartObjects.filter(({ layer }) =>
-          layer.name?.toLowerCase().includes(layerName.toLowerCase()),
-        );
+        let matchingSOs: typeof smartObjects;
+        if (hasLayerSelector({ layerId, layerPath })) {
+          const selected = selectLayer(psd.children || [], {
+            layerId,
+            layerPath,
+          });
+          matchingSOs = smartObjects.filter(({ layer }) => layer === selected);
+          if (matchingSOs.length === 0) {
+            throw new Error(`Layer "${selected.name}" is not a Smart Object`);
+          }
+        } else {
+          if (!layerName) {
+            throw new Error("Specify layerName, layerId or layerPath");
+          }
+          matchingSOs = smartObjects.filter(({ layer }) =>
+            layer.name?.toLowerCase().includes(layerName.toLowerCase()),
+          );
+        }
 
         if (matchingSOs.length === 0) {
           const suggestions = smartObjects
@@ -2416,14 +10672,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           const options = matchingSOs
             .map(
               ({ layer, path: p }, i) =>
-                `  ${i}: "${layer.name}" (${p.join(" > ")})`,
+                `  ${i}: "${layer.name}" (id: ${layer.id ?? "none"}, ${p.join(" > ")})`,
             )
             .join("\n");
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Found ${matchingSOs.length} Smart Objects matching "${layerName}". Please specify layerIndex:\n\n${options}`,
+                text: `Found ${matchingSOs.length} Smart Objects matching "${layerName}". Please specify layerIndex or layerId:\n\n${options}`,
               },
             ],
           };
@@ -2560,14 +10816,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         if (isPsd) {
           try {
-            const embeddedPsd = readPsd(Buffer.from(embeddedData), {
+            const embeddedPsd = readPsdWithProfile(Buffer.from(embeddedData), {
               skipCompositeImageData: true,
               skipLayerImageData: true,
               skipThumbnail: true,
             });
 
             const embeddedLayers =
-              embeddedPsd.children?.map(extractLayerInfo) || [];
+              embeddedPsd.children?.map((layer) =>
+                extractLayerInfo(layer, documentProfile(embeddedPsd)),
+              ) || [];
             const tree = formatLayerTree(embeddedLayers);
 
             return {
@@ -2641,6 +10899,257 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// List PSD documents in the configured design folders
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const files = findDesignFiles(RESOURCE_DIRS);
+  return {
+    resources: files.flatMap((file) => {
+      const baseName = path.basename(file);
+      return [
+        {
+          uri: psdResourceUri(file, "layers"),
+          name: `${baseName} layers`,
+          description: `Layer tree of ${file}`,
+          mimeType: "application/json",
+        },
+        {
+          uri: psdResourceUri(file, "tokens"),
+          name: `${baseName} tokens`,
+          description: `Colors, gradients and fonts used in ${file}`,
+          mimeType: "application/json",
+        },
+      ];
+    }),
+  };
+});
+
+// Templated URIs for PSDs in the design folders ({file} is the URI-encoded absolute path)
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: "psd://{file}/layers",
+        name: "PSD layers",
+        description: "Document info and full layer tree as JSON",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "psd://{file}/layer/{id}",
+        name: "PSD layer",
+        description: "A single layer (by stable ID) as JSON",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "psd://{file}/tokens",
+        name: "PSD design tokens",
+        description: "Colors, gradients and fonts used in the document",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "psd://{file}/layer/{id}/image.png",
+        name: "PSD layer image",
+        description: "Pixels of a single layer (by stable ID) as PNG",
+        mimeType: "image/png",
+      },
+    ],
+  };
+});
+
+// Read a psd:// resource
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  const { filePath, view, layerId } = parsePsdResourceUri(uri);
+  const absolutePath = path.resolve(filePath);
+
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`File not found: ${absolutePath}`);
+  }
+  if (!isInResourceDir(absolutePath)) {
+    throw new Error(
+      `Resource access denied: ${absolutePath} is not inside PSD_RESOURCE_DIRS`,
+    );
+  }
+
+  switch (view) {
+    case "layers": {
+      const psdInfo = parsePsdFile(absolutePath);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(psdInfo, null, 2),
+          },
+        ],
+      };
+    }
+
+    case "layer": {
+      const psdInfo = parsePsdFile(absolutePath);
+      const layer = selectLayerInfo(psdInfo.layers, { layerId });
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(layer, null, 2),
+          },
+        ],
+      };
+    }
+
+    case "tokens": {
+      const psd = loadPsd(absolutePath, {
+        skipCompositeImageData: true,
+        skipLayerImageData: true,
+        skipThumbnail: true,
+      });
+      const palette = extractAllColors(
+        psd.children || [],
+        documentProfile(psd),
+      );
+      const fonts = Array.from(
+        extractAllFonts(psd.children || [], documentProfile(psd)).values(),
+      ).sort((a, b) => a.fontName.localeCompare(b.fontName));
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              {
+                colors: palette.uniqueColors,
+                gradients: palette.gradients,
+                fonts,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    }
+
+    case "layerImage": {
+      const psd = loadPsd(absolutePath, {
+        skipCompositeImageData: true,
+        skipLayerImageData: false,
+        skipThumbnail: true,
+      });
+      const layer = selectLayer(psd.children || [], { layerId });
+      const imageBuffer = layerToImageBuffer(
+        layer,
+        documentProfile(psd),
+        1,
+        "png",
+      );
+      if (!imageBuffer) {
+        throw new Error(`Layer "${layer.name}" has no image data`);
+      }
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "image/png",
+            blob: imageBuffer.toString("base64"),
+          },
+        ],
+      };
+    }
+  }
+});
+
+// List available prompts
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return {
+    prompts: [
+      {
+        name: "implement_section",
+        description:
+          "Implement one group of a PSD as a component, with its layer tree, text and colors pre-assembled",
+        arguments: [
+          {
+            name: "psdPath",
+            description: "Absolute path to the PSD file",
+            required: true,
+          },
+          {
+            name: "groupName",
+            description: "Name of the group to implement (partial match)",
+            required: true,
+          },
+          {
+            name: "framework",
+            description:
+              "Target framework, e.g. 'react', 'vue', 'html' (default: html)",
+            required: false,
+          },
+        ],
+      },
+      {
+        name: "extract_design_system",
+        description:
+          "Derive design tokens (colors, typography) from a PSD with the extracted data pre-assembled",
+        arguments: [
+          {
+            name: "psdPath",
+            description: "Absolute path to the PSD file",
+            required: true,
+          },
+        ],
+      },
+    ],
+  };
+});
+
+// Build a prompt
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { name, arguments: args = {} } = request.params;
+
+  switch (name) {
+    case "implement_section": {
+      const { psdPath, groupName, framework = "html" } = args;
+      if (!psdPath || !groupName) {
+        throw new Error("psdPath and groupName are required");
+      }
+      return {
+        description: `Implement "${groupName}" with ${framework}`,
+        messages: [
+          {
+            role: "user" as const,
+            content: {
+              type: "text" as const,
+              text: buildImplementSectionPrompt(psdPath, groupName, framework),
+            },
+          },
+        ],
+      };
+    }
+
+    case "extract_design_system": {
+      const { psdPath } = args;
+      if (!psdPath) {
+        throw new Error("psdPath is required");
+      }
+      return {
+        description: `Design system for ${path.basename(psdPath)}`,
+        messages: [
+          {
+            role: "user" as const,
+            content: {
+              type: "text" as const,
+              text: buildDesignSystemPrompt(psdPath),
+            },
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+});
+
 // Start server
 async function main() {
   const transport = new StdioServerTransport();